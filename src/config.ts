@@ -6,21 +6,54 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type { ShellType } from './utils/powershell.js';
+import type { OutputEncoding } from './utils/console-encoding.js';
+
+export interface CommandPolicy {
+  allow?: string[];
+  deny?: string[];
+  blocked_executables?: string[];
+  require_confirmation?: string[];
+}
 
 export interface TonMCPConfig {
-  default_shell: 'pwsh' | 'powershell' | 'cmd';
+  default_shell: ShellType | 'auto';
   default_cwd: string;
   search_tool: 'ripgrep' | 'powershell';
   max_file_read_mb: number;
   max_search_results: number;
+  allowed_roots: string[];
+  command_policy: CommandPolicy;
+  transcripts: boolean;
+  transcript_dir: string;
+  max_transcripts: number;
+  max_sessions: number;
+  max_output_lines: number;
+  session_cleanup_interval_ms: number;
+  session_idle_timeout_ms: number;
+  session_max_lifetime_ms: number;
+  max_output_bytes: number;
+  output_encoding: OutputEncoding;
 }
 
 const DEFAULT_CONFIG: TonMCPConfig = {
-  default_shell: 'pwsh',
+  default_shell: 'auto',
   default_cwd: os.homedir(),
   search_tool: 'ripgrep',
   max_file_read_mb: 10,
   max_search_results: 200,
+  allowed_roots: [],
+  command_policy: {},
+  transcripts: false,
+  transcript_dir: path.join(os.homedir(), '.tonmcp', 'transcripts'),
+  max_transcripts: 100,
+  max_sessions: 10,
+  max_output_lines: 1000,
+  session_cleanup_interval_ms: 5 * 60 * 1000,
+  session_idle_timeout_ms: 0,
+  session_max_lifetime_ms: 0,
+  max_output_bytes: 50000,
+  output_encoding: 'auto',
 };
 
 let cachedConfig: TonMCPConfig | null = null;
@@ -13,12 +13,20 @@ import { z } from 'zod';
 
 // Tool imports
 import { shellExec } from './tools/shell.js';
-import { fileRead, fileWrite, fileDelete, fileMove, fileInfo, fileEdit, dirList, dirCreate } from './tools/files.js';
+import { shellJob } from './tools/jobs.js';
+import { shellOutput } from './tools/output.js';
+import { shellScript, SCRIPT_INTERPRETERS } from './tools/script.js';
+import { fileRead, fileWrite, fileDelete, fileMove, fileInfo, fileEdit, dirList, dirCreate, isImageResult } from './tools/files.js';
 import { search } from './tools/search.js';
 import { processes, processKill } from './tools/processes.js';
 import { systemInfo } from './tools/system.js';
 import { processInteractive } from './tools/interactive.js';
 import { isError } from './utils/errors.js';
+import { SHELL_TYPES } from './utils/powershell.js';
+import { SESSION_SIGNALS } from './utils/terminal.js';
+import { REPL_KINDS } from './utils/repl.js';
+import { OUTPUT_ENCODINGS } from './utils/console-encoding.js';
+import { installExitHandler } from './utils/process-tree.js';
 
 // Create server instance
 const server = new McpServer({
@@ -31,12 +39,26 @@ const server = new McpServer({
 // ============================================================================
 server.tool(
   'shell_exec',
-  'Execute shell command. Returns stdout, stderr, exit_code.',
+  'Execute shell command. Returns stdout, stderr, exit_code, parsed objects as data when output is json, or a job to poll with shell_job when background is set.',
   {
     command: z.string().describe('Command to execute'),
-    shell: z.enum(['pwsh', 'powershell', 'cmd']).optional().describe('Shell to use'),
+    shell: z.enum(SHELL_TYPES).optional().describe('Shell to use (default: platform-specific)'),
     cwd: z.string().optional().describe('Working directory'),
-    timeout_ms: z.number().optional().describe('Timeout in milliseconds'),
+    timeout_ms: z.number().optional().describe('Timeout in milliseconds (background jobs: none unless set)'),
+    confirm: z.boolean().optional().describe('Confirm a command that the policy flags as requiring confirmation'),
+    background: z.boolean().optional().describe('Return a job id immediately instead of waiting for the command to finish'),
+    session: z.string().optional().describe('Run in a named long-lived shell that keeps cwd and environment between calls (started on first use, ended by exit)'),
+    env: z.record(z.string(), z.string()).optional().describe('Environment variables to set for this command'),
+    env_mode: z.enum(['merge', 'replace']).optional()
+      .describe('merge: add env to the server environment (default); replace: start from a clean environment keeping only PATH, HOME and OS essentials'),
+    unset_env: z.array(z.string()).optional().describe('Environment variables to remove'),
+    stdin: z.string().optional().describe('Text written to the command\'s stdin (stdin is closed either way)'),
+    output_encoding: z.enum(OUTPUT_ENCODINGS).optional()
+      .describe('Encoding of the command\'s output, e.g. cp866 or cp1251 for legacy Windows tools (default: auto, which switches cmd/PowerShell to UTF-8 and detects UTF-16 and legacy code pages)'),
+    output: z.enum(['text', 'json']).optional()
+      .describe('json (pwsh/powershell only): return the objects the command outputs as data, via ConvertTo-Json, instead of formatted text'),
+    json_depth: z.number().optional().describe('ConvertTo-Json depth for output json (default: 2, max: 100)'),
+    select: z.array(z.string()).optional().describe('Properties to keep for output json, e.g. ["Name", "Length"] (wildcards allowed)'),
   },
   async (params) => {
     const result = await shellExec({
@@ -44,6 +66,136 @@ server.tool(
       shell: params.shell,
       cwd: params.cwd,
       timeout_ms: params.timeout_ms,
+      confirm: params.confirm,
+      background: params.background,
+      session: params.session,
+      env: params.env,
+      env_mode: params.env_mode,
+      unset_env: params.unset_env,
+      stdin: params.stdin,
+      output_encoding: params.output_encoding,
+      output: params.output,
+      json_depth: params.json_depth,
+      select: params.select,
+    });
+
+    if (isError(result)) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// Tool: shell_job
+// ============================================================================
+server.tool(
+  'shell_job',
+  'Manage background shell_exec jobs: status, tail output, wait for exit, cancel, list recent jobs.',
+  {
+    action: z.enum(['status', 'tail', 'wait', 'cancel', 'list']).describe('Action to perform'),
+    job_id: z.string().optional().describe('Job ID from shell_exec with background (all actions except list)'),
+    lines: z.number().optional().describe('Lines of stdout/stderr to return (for tail action, default: 50)'),
+    timeout_ms: z.number().optional().describe('How long to wait for the job to finish (for wait action, default: 30000)'),
+    limit: z.number().optional().describe('Maximum jobs to return (for list action, default: 20)'),
+  },
+  async (params) => {
+    const result = await shellJob({
+      action: params.action,
+      job_id: params.job_id,
+      lines: params.lines,
+      timeout_ms: params.timeout_ms,
+      limit: params.limit,
+    });
+
+    if (isError(result)) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// Tool: shell_output
+// ============================================================================
+server.tool(
+  'shell_output',
+  'Page through or grep output that shell_exec or a job cut short. Use the output_id from its result.',
+  {
+    output_id: z.string().describe('output_id from a shell_exec result or job'),
+    stream: z.enum(['stdout', 'stderr']).optional().describe('Stream to read (default: stdout)'),
+    start_line: z.number().optional().describe('First line to return, 1-based (default: 1)'),
+    end_line: z.number().optional().describe('Last line to return (default: start_line + 199)'),
+    grep: z.string().optional().describe('Regex: return matching lines with their line numbers instead of a page'),
+    ignore_case: z.boolean().optional().describe('Case-insensitive grep'),
+    max_matches: z.number().optional().describe('Maximum matches to return (default: 100)'),
+  },
+  async (params) => {
+    const result = await shellOutput({
+      output_id: params.output_id,
+      stream: params.stream,
+      start_line: params.start_line,
+      end_line: params.end_line,
+      grep: params.grep,
+      ignore_case: params.ignore_case,
+      max_matches: params.max_matches,
+    });
+
+    if (isError(result)) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// Tool: shell_script
+// ============================================================================
+server.tool(
+  'shell_script',
+  'Run a list of commands in order, stopping at the first failure, or a script body with an interpreter. Returns per-step results and overall status.',
+  {
+    steps: z.array(z.object({
+      command: z.string().describe('Command to execute'),
+      cwd: z.string().optional().describe('Working directory for this step'),
+      shell: z.enum(SHELL_TYPES).optional().describe('Shell for this step'),
+      timeout_ms: z.number().optional().describe('Timeout for this step in milliseconds'),
+      continue_on_error: z.boolean().optional().describe('Run the next steps even if this one fails'),
+    })).optional().describe('Commands to run one after another'),
+    script: z.string().optional().describe('Script body, written to a temp file and run with interpreter (instead of steps)'),
+    interpreter: z.enum(SCRIPT_INTERPRETERS).optional().describe('Interpreter for script (default: the default shell)'),
+    cwd: z.string().optional().describe('Working directory for steps without their own'),
+    shell: z.enum(SHELL_TYPES).optional().describe('Shell for steps without their own'),
+    timeout_ms: z.number().optional().describe('Timeout per step, or for the script (default: 30000)'),
+    confirm: z.boolean().optional().describe('Confirm commands that the policy flags as requiring confirmation'),
+  },
+  async (params) => {
+    const result = await shellScript({
+      steps: params.steps,
+      script: params.script,
+      interpreter: params.interpreter,
+      cwd: params.cwd,
+      shell: params.shell,
+      timeout_ms: params.timeout_ms,
+      confirm: params.confirm,
     });
 
     if (isError(result)) {
@@ -64,19 +216,32 @@ server.tool(
 // ============================================================================
 server.tool(
   'file_read',
-  'Read file contents. Supports line range.',
+  'Read file contents. Supports line range, batch reads via paths, and base64 byte ranges for binary files. PNG, JPEG, GIF and WebP files are returned as images.',
   {
-    path: z.string().describe('Absolute file path'),
+    path: z.string().optional().describe('Absolute file path'),
+    paths: z.array(z.union([
+      z.string(),
+      z.object({
+        path: z.string(),
+        start_line: z.number().optional(),
+        end_line: z.number().optional(),
+      }),
+    ])).optional().describe('Batch mode: files to read, optionally with per-file line range'),
     start_line: z.number().optional().describe('Start line (0-indexed)'),
     end_line: z.number().optional().describe('End line (-1 = EOF)'),
-    encoding: z.string().optional().describe('File encoding'),
+    encoding: z.string().optional().describe('File encoding (default: detected from BOM, else utf8, or latin1 if not valid UTF-8); base64 reads bytes for binary files'),
+    offset: z.number().optional().describe('Byte offset for base64 reads (negative = from end)'),
+    length: z.number().optional().describe('Bytes to read for base64 reads (default: to end of file)'),
   },
   async (params) => {
     const result = await fileRead({
       path: params.path,
+      paths: params.paths,
       start_line: params.start_line,
       end_line: params.end_line,
       encoding: params.encoding,
+      offset: params.offset,
+      length: params.length,
     });
 
     if (isError(result)) {
@@ -86,6 +251,35 @@ server.tool(
       };
     }
 
+    if (isImageResult(result)) {
+      const { content, ...info } = result;
+      return {
+        content: [
+          { type: 'image', data: content, mimeType: result.mime_type },
+          { type: 'text', text: JSON.stringify(info, null, 2) },
+        ],
+      };
+    }
+
+    // Images in a batch come first, in request order, and are left out of the JSON
+    if ('files' in result && result.files.some(isImageResult)) {
+      const images: Array<{ type: 'image'; data: string; mimeType: string }> = [];
+      const files = result.files.map((file) => {
+        if (!isImageResult(file)) {
+          return file;
+        }
+        const { content, ...info } = file;
+        images.push({ type: 'image', data: content, mimeType: file.mime_type });
+        return info;
+      });
+      return {
+        content: [
+          ...images,
+          { type: 'text', text: JSON.stringify({ ...result, files }, null, 2) },
+        ],
+      };
+    }
+
     return {
       content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
     };
@@ -97,12 +291,18 @@ server.tool(
 // ============================================================================
 server.tool(
   'file_write',
-  'Write or append to file.',
+  'Write or append to file. Overwrites are atomic; returns the new sha256.',
   {
     path: z.string().describe('Absolute file path'),
     content: z.string().describe('Content to write'),
     mode: z.enum(['overwrite', 'append']).optional().describe('Write mode'),
     create_dirs: z.boolean().optional().describe('Create parent directories'),
+    encoding: z.string().optional()
+      .describe('utf8, utf16le, utf16be, latin1, or base64 to write the bytes content encodes (default: that of the file being overwritten, else utf8)'),
+    bom: z.boolean().optional().describe('Write a byte order mark (default: keep the overwritten file\'s)'),
+    eol: z.enum(['lf', 'crlf']).optional().describe('Line endings to write (default: keep the overwritten file\'s)'),
+    expected_sha256: z.string().optional().describe('Fail with CONFLICT unless the file still has this sha256 (from file_read)'),
+    expected_mtime: z.string().optional().describe('Fail with CONFLICT unless the file was last modified at this time (from file_info)'),
   },
   async (params) => {
     const result = await fileWrite({
@@ -110,6 +310,11 @@ server.tool(
       content: params.content,
       mode: params.mode,
       create_dirs: params.create_dirs,
+      encoding: params.encoding,
+      bom: params.bom,
+      eol: params.eol,
+      expected_sha256: params.expected_sha256,
+      expected_mtime: params.expected_mtime,
     });
 
     if (isError(result)) {
@@ -130,12 +335,17 @@ server.tool(
 // ============================================================================
 server.tool(
   'file_edit',
-  'Find and replace text in file.',
+  'Find and replace text in file. Keeps the file\'s encoding, BOM and line endings; writes atomically and returns the new sha256.',
   {
     path: z.string().describe('Absolute file path'),
     old_text: z.string().describe('Text to find'),
     new_text: z.string().describe('Replacement text'),
     occurrence: z.number().optional().describe('Which occurrence (0 = all)'),
+    encoding: z.string().optional().describe('Re-encode the file: utf8, utf16le, utf16be or latin1 (default: keep)'),
+    bom: z.boolean().optional().describe('Add or remove the byte order mark (default: keep)'),
+    eol: z.enum(['lf', 'crlf']).optional().describe('Convert all line endings (default: keep)'),
+    expected_sha256: z.string().optional().describe('Fail with CONFLICT unless the file still has this sha256 (from file_read)'),
+    expected_mtime: z.string().optional().describe('Fail with CONFLICT unless the file was last modified at this time (from file_info)'),
   },
   async (params) => {
     const result = await fileEdit({
@@ -143,6 +353,11 @@ server.tool(
       old_text: params.old_text,
       new_text: params.new_text,
       occurrence: params.occurrence,
+      encoding: params.encoding,
+      bom: params.bom,
+      eol: params.eol,
+      expected_sha256: params.expected_sha256,
+      expected_mtime: params.expected_mtime,
     });
 
     if (isError(result)) {
@@ -383,12 +598,15 @@ server.tool(
     pid: z.number().optional().describe('Process ID'),
     name: z.string().optional().describe('Process name'),
     force: z.boolean().optional().describe('Force kill'),
+    signal: z.enum(['SIGTERM', 'SIGKILL', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2', 'SIGSTOP', 'SIGCONT'])
+      .optional().describe('POSIX signal to send (not supported on Windows)'),
   },
   async (params) => {
     const result = await processKill({
       pid: params.pid,
       name: params.name,
       force: params.force,
+      signal: params.signal,
     });
 
     if (isError(result)) {
@@ -432,14 +650,33 @@ server.tool(
 // ============================================================================
 server.tool(
   'process_interactive',
-  'Interactive process management: start, write, read, kill, list sessions. For Python REPL use: python -u -i (unbuffered interactive mode).',
+  'Interactive process management: start, write, read, wait, signal, kill, list, resize sessions, and fetch session transcripts. For Python/Node/PowerShell REPLs start with repl and run snippets with eval to get exactly their stdout, stderr and exception. Start with pty: true for programs that need a terminal.',
   {
-    action: z.enum(['start', 'write', 'read', 'kill', 'list']).describe('Action to perform'),
+    action: z.enum(['start', 'write', 'read', 'wait', 'kill', 'list', 'resize', 'signal', 'transcript', 'eval']).describe('Action to perform'),
     command: z.string().optional().describe('Command to start (for start action)'),
     cwd: z.string().optional().describe('Working directory (for start action)'),
-    session_id: z.string().optional().describe('Session ID (for write/read/kill)'),
+    session_id: z.string().optional().describe('Session ID or name (for write/read/wait/signal/kill/resize/transcript/eval)'),
     input: z.string().optional().describe('Input to send (for write action)'),
-    timeout_ms: z.number().optional().describe('Read timeout in ms (for read action)'),
+    secret: z.boolean().optional().describe('Keep the input out of the session transcript, e.g. a password (for write action)'),
+    timeout_ms: z.number().optional().describe('How long to wait for output, the expect pattern, or exit (wait action) in ms'),
+    cursor: z.number().int().min(0).optional().describe('Read output from this cursor instead of the last read position (for read action)'),
+    expect: z.string().optional().describe('Regex to wait for in the output, e.g. ">>> $" (for start/write/read actions)'),
+    pty: z.boolean().optional().describe('Run in a pseudo-terminal (for start action)'),
+    cols: z.number().optional().describe('Terminal columns (for start with pty, or resize)'),
+    rows: z.number().optional().describe('Terminal rows (for start with pty, or resize)'),
+    strip_ansi: z.boolean().optional().describe('Strip ANSI escape sequences from output (session default on start, override on write/read)'),
+    signal: z.enum(SESSION_SIGNALS).optional()
+      .describe('Signal to send without ending the session: SIGINT (Ctrl+C), SIGBREAK (Ctrl+Break, Windows), EOF (Ctrl+D / close stdin), SIGTERM... (for signal action)'),
+    include_chunks: z.boolean().optional().describe('Also return output as chunks tagged with stream (stdout/stderr/pty) and timestamp'),
+    confirm: z.boolean().optional().describe('Confirm a command that the policy flags as requiring confirmation (for start action)'),
+    transcript: z.boolean().optional().describe('Log inputs and outputs to disk, overriding the transcripts config (for start action)'),
+    limit: z.number().optional().describe('Most recent transcript events to return (transcript action) or finished sessions to include (list action)'),
+    name: z.string().optional().describe('Name to reconnect to the session by, usable as session_id (for start action)'),
+    labels: z.record(z.string(), z.string()).optional().describe('Key/value labels (set on start, filter on list)'),
+    idle_timeout_ms: z.number().optional().describe('End the session after this long without a write/read/wait/signal; 0 = never (for start action)'),
+    max_lifetime_ms: z.number().optional().describe('End the session this long after it started; 0 = never (for start action)'),
+    repl: z.enum(REPL_KINDS).optional().describe('Start a REPL usable with eval; command defaults to the interpreter (for start action)'),
+    code: z.string().optional().describe('Snippet to evaluate; timeout_ms limits how long to wait (for eval action)'),
   },
   async (params) => {
     const result = await processInteractive({
@@ -448,7 +685,25 @@ server.tool(
       cwd: params.cwd,
       session_id: params.session_id,
       input: params.input,
+      secret: params.secret,
       timeout_ms: params.timeout_ms,
+      cursor: params.cursor,
+      expect: params.expect,
+      pty: params.pty,
+      cols: params.cols,
+      rows: params.rows,
+      strip_ansi: params.strip_ansi,
+      signal: params.signal,
+      include_chunks: params.include_chunks,
+      confirm: params.confirm,
+      transcript: params.transcript,
+      limit: params.limit,
+      name: params.name,
+      labels: params.labels,
+      idle_timeout_ms: params.idle_timeout_ms,
+      max_lifetime_ms: params.max_lifetime_ms,
+      repl: params.repl,
+      code: params.code,
     });
 
     if (isError(result)) {
@@ -468,6 +723,8 @@ server.tool(
 // Start Server
 // ============================================================================
 async function main() {
+  // Commands still running in detached process groups end with the server
+  installExitHandler();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Auralis Commander started');
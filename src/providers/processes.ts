@@ -0,0 +1,370 @@
+/**
+ * Auralis Commander Process Providers
+ * Platform backends for the processes and process_kill tools:
+ * CIM/PowerShell on Windows, /proc or ps everywhere else
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { executeJson, execute } from '../utils/powershell.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+import type { ProcessInfo } from '../tools/processes.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ProcessProvider {
+  /** List processes, optionally filtered by a case-insensitive name substring */
+  list(filter?: string): Promise<ProcessInfo[] | TonMCPError>;
+  /** Resolve an exact process name to PIDs */
+  findByName(name: string): Promise<number[] | TonMCPError>;
+  /** Terminate a single process; returns false if it could not be killed */
+  kill(pid: number, force: boolean, signal?: NodeJS.Signals): Promise<boolean>;
+}
+
+// ============================================================================
+// Windows (CIM via PowerShell)
+// ============================================================================
+
+interface RawProcessInfo {
+  ProcessId: number;
+  Name: string;
+  WorkingSetSize: number;
+  CreationDate: string | null;
+}
+
+interface RawCpuInfo {
+  IDProcess: number;
+  PercentProcessorTime: number;
+}
+
+const windowsProvider: ProcessProvider = {
+  async list(filter) {
+    // Get process list with working set (memory)
+    let processCommand = `Get-CimInstance -ClassName Win32_Process | ` +
+      `Select-Object ProcessId, Name, WorkingSetSize, CreationDate`;
+    
+    if (filter) {
+      processCommand += ` | Where-Object { $_.Name -like "*${filter}*" }`;
+    }
+
+    const processResult = await executeJson<RawProcessInfo[]>(processCommand);
+    
+    if (isError(processResult)) {
+      return processResult;
+    }
+
+    // Get CPU usage per process (this is a snapshot, not accurate for real-time)
+    // Using Get-Counter is more accurate but slower
+    const cpuCommand = `Get-CimInstance -ClassName Win32_PerfFormattedData_PerfProc_Process | ` +
+      `Select-Object IDProcess, PercentProcessorTime`;
+    
+    const cpuResult = await executeJson<RawCpuInfo[]>(cpuCommand);
+    
+    // Build CPU lookup map (may fail on some systems, so we default to 0)
+    const cpuMap = new Map<number, number>();
+    if (!isError(cpuResult) && Array.isArray(cpuResult)) {
+      for (const item of cpuResult) {
+        if (item.IDProcess && item.PercentProcessorTime !== undefined) {
+          cpuMap.set(item.IDProcess, item.PercentProcessorTime);
+        }
+      }
+    }
+
+    // Handle single result (PowerShell returns object instead of array)
+    const rawProcesses = Array.isArray(processResult) ? processResult : [processResult];
+
+    return rawProcesses
+      .filter((p): p is RawProcessInfo => p !== null && p.ProcessId !== undefined)
+      .map((p) => ({
+        pid: p.ProcessId,
+        name: p.Name || 'Unknown',
+        memory_mb: Math.round((p.WorkingSetSize || 0) / (1024 * 1024) * 10) / 10,
+        cpu_percent: cpuMap.get(p.ProcessId) ?? 0,
+        status: 'running',
+        start_time: p.CreationDate || null,
+      }));
+  },
+
+  async findByName(name) {
+    const listCommand = `Get-Process -Name "${name}" -ErrorAction SilentlyContinue | Select-Object Id | ConvertTo-Json -Compress`;
+    const listResult = await execute(listCommand);
+    
+    if (isError(listResult) || !listResult.stdout.trim()) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(listResult.stdout);
+      const items = Array.isArray(parsed) ? parsed : [parsed];
+      return items.map((p: { Id: number }) => p.Id);
+    } catch {
+      return createError('PARSE_ERROR', 'Failed to parse process list');
+    }
+  },
+
+  async kill(pid, force) {
+    const forceFlag = force ? '-Force' : '';
+    const command = `Stop-Process -Id ${pid} ${forceFlag} -ErrorAction Stop`;
+    
+    const result = await execute(command);
+    return !isError(result) && result.exitCode === 0;
+  },
+};
+
+// ============================================================================
+// POSIX (/proc on Linux, ps elsewhere)
+// ============================================================================
+
+// USER_HZ on every mainstream Linux build, if getconf can't say
+const DEFAULT_CLOCK_TICKS_PER_SEC = 100;
+const CPU_SAMPLE_MS = 250;
+
+let clockTicksPerSec: Promise<number> | null = null;
+
+/**
+ * Units of the CPU and start times in /proc/<pid>/stat, read once
+ */
+function getClockTicksPerSec(): Promise<number> {
+  clockTicksPerSec ??= execFileAsync('getconf', ['CLK_TCK'])
+    .then(({ stdout }) => Number(stdout.trim()) || DEFAULT_CLOCK_TICKS_PER_SEC)
+    .catch(() => DEFAULT_CLOCK_TICKS_PER_SEC);
+  return clockTicksPerSec;
+}
+
+const LINUX_STATES: Record<string, string> = {
+  R: 'running',
+  S: 'sleeping',
+  D: 'disk-sleep',
+  T: 'stopped',
+  t: 'tracing-stop',
+  Z: 'zombie',
+  X: 'dead',
+  I: 'idle',
+};
+
+interface ProcStat {
+  pid: number;
+  name: string;
+  state: string;
+  cpuTicks: number;
+  startTicks: number;
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name is wrapped in parentheses and may
+ * itself contain spaces or parentheses, so split after the last ')'.
+ */
+async function readProcStat(pid: number): Promise<ProcStat | null> {
+  try {
+    const raw = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+    const open = raw.indexOf('(');
+    const close = raw.lastIndexOf(')');
+    const fields = raw.slice(close + 2).split(' ');
+    // fields[0] is field 3 (state); utime/stime are 14/15, starttime is 22
+    return {
+      pid,
+      name: raw.slice(open + 1, close),
+      state: fields[0] ?? '?',
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+      startTicks: Number(fields[19]),
+    };
+  } catch {
+    // Process exited between readdir and read
+    return null;
+  }
+}
+
+async function readRssMb(pid: number): Promise<number> {
+  try {
+    const status = await fs.readFile(`/proc/${pid}/status`, 'utf8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? Math.round(Number(match[1]) / 1024 * 10) / 10 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+async function readBootTime(): Promise<number> {
+  const stat = await fs.readFile('/proc/stat', 'utf8');
+  const match = stat.match(/^btime\s+(\d+)/m);
+  return match ? Number(match[1]) : 0;
+}
+
+async function listPids(): Promise<number[]> {
+  const entries = await fs.readdir('/proc');
+  return entries.filter((e) => /^\d+$/.test(e)).map(Number);
+}
+
+async function sampleProcStats(pids: number[]): Promise<Map<number, ProcStat>> {
+  const stats = await Promise.all(pids.map(readProcStat));
+  const map = new Map<number, ProcStat>();
+  for (const stat of stats) {
+    if (stat) map.set(stat.pid, stat);
+  }
+  return map;
+}
+
+async function listFromProc(filter?: string): Promise<ProcessInfo[]> {
+  const bootTime = await readBootTime();
+  const ticksPerSec = await getClockTicksPerSec();
+  const needle = filter?.toLowerCase();
+
+  let pids = await listPids();
+  const first = await sampleProcStats(pids);
+  if (needle) {
+    pids = pids.filter((pid) => first.get(pid)?.name.toLowerCase().includes(needle));
+  }
+
+  // Two samples a short interval apart give a current CPU figure, like Windows does
+  const sampleStart = Date.now();
+  await new Promise((resolve) => setTimeout(resolve, CPU_SAMPLE_MS));
+  const second = await sampleProcStats(pids);
+  const elapsedSec = (Date.now() - sampleStart) / 1000;
+
+  const result: ProcessInfo[] = [];
+  for (const pid of pids) {
+    const after = second.get(pid);
+    if (!after) continue;
+
+    const before = first.get(pid);
+    const deltaTicks = before ? after.cpuTicks - before.cpuTicks : 0;
+    const cpuPercent = elapsedSec > 0
+      ? Math.round(deltaTicks / ticksPerSec / elapsedSec * 1000) / 10
+      : 0;
+
+    result.push({
+      pid,
+      name: after.name || 'Unknown',
+      memory_mb: await readRssMb(pid),
+      cpu_percent: cpuPercent,
+      status: LINUX_STATES[after.state] ?? after.state,
+      start_time: bootTime
+        ? new Date((bootTime + after.startTicks / ticksPerSec) * 1000).toISOString()
+        : null,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Names a process goes by: its comm, which the kernel truncates to 15
+ * characters, plus the file names of its executable and of argv[0]
+ */
+async function readProcNames(pid: number, comm: string): Promise<string[]> {
+  const names = [comm];
+  try {
+    names.push(path.basename(await fs.readlink(`/proc/${pid}/exe`)));
+  } catch {
+    // Kernel thread, or someone else's process
+  }
+  try {
+    const argv0 = (await fs.readFile(`/proc/${pid}/cmdline`, 'utf8')).split('\0')[0];
+    if (argv0) names.push(path.basename(argv0));
+  } catch {
+    // Exited
+  }
+  return names;
+}
+
+async function findInProc(name: string): Promise<number[]> {
+  const stats = await sampleProcStats(await listPids());
+  const matches = await Promise.all([...stats.values()].map(async (stat) =>
+    stat.name === name || (await readProcNames(stat.pid, stat.name)).includes(name) ? stat.pid : null
+  ));
+  return matches.filter((pid): pid is number => pid !== null);
+}
+
+/**
+ * Parse `ps` output for systems without /proc (macOS, BSD)
+ */
+async function listFromPs(filter?: string): Promise<ProcessInfo[] | TonMCPError> {
+  let stdout: string;
+  try {
+    // lstart is a fixed five-token date, comm goes last because it may contain spaces
+    ({ stdout } = await execFileAsync(
+      'ps', ['-axo', 'pid=,rss=,pcpu=,state=,lstart=,comm='],
+      { maxBuffer: 16 * 1024 * 1024 }
+    ));
+  } catch (err) {
+    return createError('COMMAND_FAILED', `Failed to list processes: ${(err as Error).message}`);
+  }
+
+  const needle = filter?.toLowerCase();
+  const result: ProcessInfo[] = [];
+
+  for (const line of stdout.split('\n')) {
+    const tokens = line.trim().split(/\s+/);
+    if (tokens.length < 10) continue;
+
+    const [pid, rss, pcpu, state] = tokens;
+    const started = new Date(tokens.slice(4, 9).join(' '));
+    const command = tokens.slice(9).join(' ');
+    const name = command.split('/').pop() || command;
+
+    if (needle && !name.toLowerCase().includes(needle)) continue;
+
+    result.push({
+      pid: Number(pid),
+      name,
+      memory_mb: Math.round(Number(rss) / 1024 * 10) / 10,
+      cpu_percent: Number(pcpu) || 0,
+      status: LINUX_STATES[state![0]!] ?? state!,
+      start_time: isNaN(started.getTime()) ? null : started.toISOString(),
+    });
+  }
+
+  return result;
+}
+
+const posixProvider: ProcessProvider = {
+  async list(filter) {
+    try {
+      await fs.access('/proc/self/stat');
+    } catch {
+      return listFromPs(filter);
+    }
+
+    try {
+      return await listFromProc(filter);
+    } catch (err) {
+      return createError('COMMAND_FAILED', `Failed to read /proc: ${(err as Error).message}`);
+    }
+  },
+
+  async findByName(name) {
+    try {
+      await fs.access('/proc/self/stat');
+    } catch {
+      const all = await listFromPs();
+      if (isError(all)) {
+        return all;
+      }
+      return all.filter((p) => p.name === name).map((p) => p.pid);
+    }
+
+    try {
+      return await findInProc(name);
+    } catch (err) {
+      return createError('COMMAND_FAILED', `Failed to read /proc: ${(err as Error).message}`);
+    }
+  },
+
+  async kill(pid, force, signal) {
+    try {
+      process.kill(pid, signal ?? (force ? 'SIGKILL' : 'SIGTERM'));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Select the process backend for the current platform
+ */
+export function getProcessProvider(): ProcessProvider {
+  return process.platform === 'win32' ? windowsProvider : posixProvider;
+}
@@ -0,0 +1,348 @@
+/**
+ * Auralis Commander System Info Providers
+ * Platform backends for system_info: CIM/PowerShell on Windows,
+ * the os module plus /proc and statfs everywhere else
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { executeJson } from '../utils/powershell.js';
+import { isError, TonMCPError } from '../utils/errors.js';
+import type { SystemInfoResult } from '../tools/system.js';
+
+export interface SystemInfoProvider {
+  collect(): Promise<SystemInfoResult | TonMCPError>;
+}
+
+const CPU_SAMPLE_MS = 250;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function bytesToGb(bytes: number): number {
+  return round1(bytes / (1024 * 1024 * 1024));
+}
+
+// ============================================================================
+// Windows (CIM via PowerShell)
+// ============================================================================
+
+interface RawCpuInfo {
+  Name: string;
+  LoadPercentage: number;
+}
+
+interface RawMemoryInfo {
+  TotalVisibleMemorySize: number;
+  FreePhysicalMemory: number;
+}
+
+interface RawDiskInfo {
+  DeviceID: string;
+  Size: number;
+  FreeSpace: number;
+}
+
+interface RawUptimeInfo {
+  LastBootUpTime: string;
+}
+
+const windowsProvider: SystemInfoProvider = {
+  async collect() {
+    // Each query is an independent pwsh process, so run them side by side
+    const [hostnameResult, osResult, coresResult, cpuResult, memoryResult, diskResult, uptimeResult] =
+      await Promise.all([
+        executeJson<{ CsName: string }>(
+          `Get-CimInstance Win32_ComputerSystem | Select-Object @{N='CsName';E={$_.Name}}`
+        ),
+        executeJson<{ Caption: string; Version: string }>(
+          `Get-CimInstance Win32_OperatingSystem | Select-Object Caption, Version`
+        ),
+        executeJson<{ NumberOfLogicalProcessors: number }>(
+          `Get-CimInstance Win32_ComputerSystem | Select-Object NumberOfLogicalProcessors`
+        ),
+        executeJson<RawCpuInfo>(
+          `Get-CimInstance Win32_Processor | Select-Object Name, LoadPercentage | Select-Object -First 1`
+        ),
+        executeJson<RawMemoryInfo>(
+          `Get-CimInstance Win32_OperatingSystem | Select-Object TotalVisibleMemorySize, FreePhysicalMemory`
+        ),
+        executeJson<RawDiskInfo[]>(
+          `Get-CimInstance Win32_LogicalDisk -Filter "DriveType=3" | Select-Object DeviceID, Size, FreeSpace`
+        ),
+        executeJson<RawUptimeInfo>(
+          `Get-CimInstance Win32_OperatingSystem | Select-Object LastBootUpTime`
+        ),
+      ]);
+
+    // Extract hostname
+    const hostname = !isError(hostnameResult) && hostnameResult 
+      ? (hostnameResult as { CsName: string }).CsName || 'Unknown'
+      : 'Unknown';
+
+    // Extract OS info
+    let osName = 'Windows';
+    if (!isError(osResult) && osResult) {
+      const info = osResult as { Caption?: string; Version?: string };
+      osName = info.Caption || 'Windows';
+      if (info.Version) {
+        osName += ` (${info.Version})`;
+      }
+    }
+
+    // Extract core count
+    const cores = !isError(coresResult) && coresResult
+      ? (coresResult as { NumberOfLogicalProcessors: number }).NumberOfLogicalProcessors || 0
+      : 0;
+
+    // Extract CPU info
+    let cpuName = 'Unknown';
+    let cpuUsage = 0;
+    if (!isError(cpuResult) && cpuResult) {
+      const cpu = cpuResult as RawCpuInfo;
+      cpuName = cpu.Name || 'Unknown';
+      cpuUsage = cpu.LoadPercentage || 0;
+    }
+
+    // Extract memory info
+    let totalMemoryGb = 0;
+    let usedMemoryGb = 0;
+    let memoryPercent = 0;
+    if (!isError(memoryResult) && memoryResult) {
+      const mem = memoryResult as RawMemoryInfo;
+      const totalKb = mem.TotalVisibleMemorySize || 0;
+      const freeKb = mem.FreePhysicalMemory || 0;
+      totalMemoryGb = Math.round(totalKb / (1024 * 1024) * 10) / 10;
+      const freeGb = freeKb / (1024 * 1024);
+      usedMemoryGb = Math.round((totalMemoryGb - freeGb) * 10) / 10;
+      memoryPercent = totalMemoryGb > 0 ? Math.round((usedMemoryGb / totalMemoryGb) * 100) : 0;
+    }
+
+    // Extract disk info
+    const disks: SystemInfoResult['disks'] = [];
+    if (!isError(diskResult) && diskResult) {
+      const rawDisks = Array.isArray(diskResult) ? diskResult : [diskResult];
+      for (const disk of rawDisks) {
+        if (disk && disk.DeviceID && disk.Size) {
+          const totalGb = bytesToGb(disk.Size);
+          const freeGb = bytesToGb(disk.FreeSpace || 0);
+          const percentUsed = totalGb > 0 ? Math.round(((totalGb - freeGb) / totalGb) * 100) : 0;
+          
+          disks.push({
+            name: disk.DeviceID,
+            total_gb: totalGb,
+            free_gb: freeGb,
+            percent_used: percentUsed,
+          });
+        }
+      }
+    }
+
+    // Calculate uptime
+    let uptimeHours = 0;
+    if (!isError(uptimeResult) && uptimeResult) {
+      const uptime = uptimeResult as RawUptimeInfo;
+      if (uptime.LastBootUpTime) {
+        try {
+          const bootTime = new Date(uptime.LastBootUpTime);
+          const now = new Date();
+          const diffMs = now.getTime() - bootTime.getTime();
+          uptimeHours = Math.round(diffMs / (1000 * 60 * 60) * 10) / 10;
+        } catch {
+          uptimeHours = 0;
+        }
+      }
+    }
+
+    return {
+      hostname,
+      os: osName,
+      uptime_hours: uptimeHours,
+      cpu: {
+        name: cpuName,
+        cores,
+        usage_percent: cpuUsage,
+      },
+      memory: {
+        total_gb: totalMemoryGb,
+        used_gb: usedMemoryGb,
+        percent: memoryPercent,
+      },
+      disks,
+    };
+  },
+};
+
+// ============================================================================
+// Native (os module, /proc, statfs)
+// ============================================================================
+
+// Pseudo and virtual filesystems that should never show up as disks
+const IGNORED_FS_TYPES = new Set([
+  'proc', 'sysfs', 'devtmpfs', 'devpts', 'tmpfs', 'cgroup', 'cgroup2', 'pstore',
+  'securityfs', 'debugfs', 'tracefs', 'configfs', 'fusectl', 'mqueue', 'hugetlbfs',
+  'bpf', 'autofs', 'binfmt_misc', 'rpc_pipefs', 'nsfs', 'squashfs', 'overlay',
+]);
+
+interface CpuTimes {
+  idle: number;
+  total: number;
+}
+
+/**
+ * Aggregate CPU counters from /proc/stat, falling back to os.cpus()
+ */
+async function readCpuTimes(): Promise<CpuTimes> {
+  try {
+    const stat = await fs.readFile('/proc/stat', 'utf8');
+    const line = stat.split('\n').find((l) => l.startsWith('cpu '));
+    if (line) {
+      const values = line.trim().split(/\s+/).slice(1).map(Number);
+      // idle + iowait count as idle time
+      const idle = (values[3] ?? 0) + (values[4] ?? 0);
+      return { idle, total: values.reduce((sum, v) => sum + v, 0) };
+    }
+  } catch {
+    // No /proc (macOS, BSD)
+  }
+
+  let idle = 0;
+  let total = 0;
+  for (const cpu of os.cpus()) {
+    idle += cpu.times.idle;
+    total += cpu.times.user + cpu.times.nice + cpu.times.sys + cpu.times.irq + cpu.times.idle;
+  }
+  return { idle, total };
+}
+
+async function sampleCpuUsage(): Promise<number> {
+  const before = await readCpuTimes();
+  await new Promise((resolve) => setTimeout(resolve, CPU_SAMPLE_MS));
+  const after = await readCpuTimes();
+
+  const total = after.total - before.total;
+  const idle = after.idle - before.idle;
+  return total > 0 ? Math.round((1 - idle / total) * 100) : 0;
+}
+
+/**
+ * Memory totals in bytes. MemAvailable is a better "free" figure than
+ * os.freemem(), which ignores reclaimable page cache on Linux.
+ */
+async function readMemory(): Promise<{ total: number; available: number }> {
+  try {
+    const meminfo = await fs.readFile('/proc/meminfo', 'utf8');
+    const total = meminfo.match(/^MemTotal:\s+(\d+)\s+kB/m);
+    const available = meminfo.match(/^MemAvailable:\s+(\d+)\s+kB/m);
+    if (total && available) {
+      return { total: Number(total[1]) * 1024, available: Number(available[1]) * 1024 };
+    }
+  } catch {
+    // No /proc
+  }
+  return { total: os.totalmem(), available: os.freemem() };
+}
+
+async function readOsName(): Promise<string> {
+  try {
+    const release = await fs.readFile('/etc/os-release', 'utf8');
+    const pretty = release.match(/^PRETTY_NAME="?([^"\n]*)"?/m);
+    if (pretty?.[1]) {
+      return `${pretty[1]} (${os.release()})`;
+    }
+  } catch {
+    // Not a Linux distribution with os-release
+  }
+  return `${os.type()} (${os.release()})`;
+}
+
+async function listMountPoints(): Promise<string[]> {
+  try {
+    const mounts = await fs.readFile('/proc/mounts', 'utf8');
+    const seenDevices = new Set<string>();
+    const points: string[] = [];
+
+    for (const line of mounts.split('\n')) {
+      const [device, mountPoint, fsType] = line.split(' ');
+      if (!device || !mountPoint || !fsType) continue;
+      if (IGNORED_FS_TYPES.has(fsType) || seenDevices.has(device)) continue;
+      if (!device.startsWith('/')) continue;
+
+      seenDevices.add(device);
+      // /proc/mounts escapes spaces and other special characters as octal
+      points.push(mountPoint.replace(/\\(\d{3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8))));
+    }
+
+    if (points.length > 0) {
+      return points;
+    }
+  } catch {
+    // No /proc
+  }
+  return ['/'];
+}
+
+async function readDisks(): Promise<SystemInfoResult['disks']> {
+  const disks: SystemInfoResult['disks'] = [];
+
+  for (const mountPoint of await listMountPoints()) {
+    try {
+      const stats = await fs.statfs(mountPoint);
+      const totalBytes = stats.blocks * stats.bsize;
+      if (totalBytes === 0) continue;
+
+      const totalGb = bytesToGb(totalBytes);
+      const freeGb = bytesToGb(stats.bavail * stats.bsize);
+      disks.push({
+        name: mountPoint,
+        total_gb: totalGb,
+        free_gb: freeGb,
+        percent_used: totalGb > 0 ? Math.round(((totalGb - freeGb) / totalGb) * 100) : 0,
+      });
+    } catch {
+      // Unreadable mount (permissions, stale network share)
+    }
+  }
+
+  return disks;
+}
+
+const nativeProvider: SystemInfoProvider = {
+  async collect() {
+    const cpus = os.cpus();
+    const [osName, cpuUsage, memory, disks] = await Promise.all([
+      readOsName(),
+      sampleCpuUsage(),
+      readMemory(),
+      readDisks(),
+    ]);
+
+    const totalMemoryGb = bytesToGb(memory.total);
+    const usedMemoryGb = bytesToGb(memory.total - memory.available);
+
+    return {
+      hostname: os.hostname(),
+      os: osName,
+      uptime_hours: round1(os.uptime() / 3600),
+      cpu: {
+        name: cpus[0]?.model.trim() || 'Unknown',
+        cores: cpus.length,
+        usage_percent: cpuUsage,
+      },
+      memory: {
+        total_gb: totalMemoryGb,
+        used_gb: usedMemoryGb,
+        percent: totalMemoryGb > 0 ? Math.round((usedMemoryGb / totalMemoryGb) * 100) : 0,
+      },
+      disks,
+    };
+  },
+};
+
+/**
+ * Select the system info backend for the current platform
+ */
+export function getSystemInfoProvider(): SystemInfoProvider {
+  return process.platform === 'win32' ? windowsProvider : nativeProvider;
+}
@@ -6,36 +6,160 @@
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
-import { normalizePath, formatBytes, getDirName } from '../utils/paths.js';
-import { createError, mapNodeError, TonMCPError } from '../utils/errors.js';
+import { createHash, randomBytes } from 'crypto';
+import { resolveAllowedPath, formatBytes, getDirName, realPathLenient } from '../utils/paths.js';
+import { createError, isError, mapNodeError, TonMCPError } from '../utils/errors.js';
 import { getConfig } from '../config.js';
+import {
+  convertLineEndings,
+  canEncode,
+  decodeText,
+  detectLineEnding,
+  encodeText,
+  LineEnding,
+  normalizeEncoding,
+  TextFormat,
+} from '../utils/text-encoding.js';
 
 // ============================================================================
 // file_read
 // ============================================================================
 
-export interface FileReadParams {
+export interface FileReadTarget {
   path: string;
   start_line?: number;
   end_line?: number;
+}
+
+export interface FileReadParams {
+  path?: string;
+  paths?: Array<string | FileReadTarget>;
+  start_line?: number;
+  end_line?: number;
   encoding?: string;
+  // Byte range for encoding 'base64'; a negative offset counts from the end
+  offset?: number;
+  length?: number;
 }
 
 export interface FileReadResult {
+  // Lines are joined with \n whatever the file uses; eol says what that is
   content: string;
   total_lines: number;
   read_lines: number;
   truncated: boolean;
+  encoding: string;
+  bom: boolean;
+  eol: LineEnding | null;
+  // Of the whole file; pass to file_write or file_edit as expected_sha256
+  sha256: string;
 }
 
-export async function fileRead(
-  params: FileReadParams
-): Promise<FileReadResult | TonMCPError> {
-  const filePath = normalizePath(params.path);
-  const startLine = params.start_line ?? 0;
-  const endLine = params.end_line ?? -1;
-  const encoding = (params.encoding ?? 'utf8') as BufferEncoding;
+export interface FileReadBinaryResult {
+  encoding: 'base64';
+  content: string;
+  offset: number;
+  bytes_read: number;
+  total_bytes: number;
+  // More bytes follow the range that was read
+  truncated: boolean;
+  // Detected from the file's leading bytes; null if not recognised
+  mime_type: string | null;
+  // Only when the whole file was read
+  sha256?: string;
+}
+
+export type FileReadBatchEntry = { path: string } & (FileReadResult | FileReadBinaryResult | TonMCPError);
+
+export interface FileReadBatchResult {
+  files: FileReadBatchEntry[];
+  succeeded: number;
+  failed: number;
+  total_bytes: number;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Signatures of the image formats MCP clients can display
+const IMAGE_SIGNATURES: Array<{ mimeType: string; matches: (head: Buffer) => boolean }> = [
+  { mimeType: 'image/png', matches: (head) => head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: (head) => head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff },
+  { mimeType: 'image/gif', matches: (head) => /^GIF8[79]a/.test(head.toString('latin1', 0, 6)) },
+  { mimeType: 'image/webp', matches: (head) => head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP' },
+];
+
+async function detectMimeType(handle: fs.FileHandle): Promise<string | null> {
+  const head = Buffer.alloc(12);
+  const { bytesRead } = await handle.read(head, 0, head.length, 0);
+  const signature = IMAGE_SIGNATURES.find((s) => s.matches(head.subarray(0, bytesRead)));
+  return signature?.mimeType ?? null;
+}
+
+/**
+ * Whether a read returned a whole image, which file_read shows as an image
+ */
+export function isImageResult(result: object): result is FileReadBinaryResult & { mime_type: string } {
+  const binary = result as Partial<FileReadBinaryResult>;
+  return binary.encoding === 'base64' && !!binary.mime_type?.startsWith('image/')
+    && binary.offset === 0 && binary.truncated === false;
+}
 
+/**
+ * Read a byte range of a file as base64, at most maxBytes of it
+ */
+async function readFileBytes(
+  filePath: string,
+  offset: number,
+  length: number | undefined,
+  maxBytes: number
+): Promise<FileReadBinaryResult | TonMCPError> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (stats.isDirectory()) {
+      return createError('NOT_A_FILE', `Path is a directory: ${filePath}`);
+    }
+
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const totalBytes = stats.size;
+      const start = offset < 0 ? Math.max(0, totalBytes + offset) : Math.min(offset, totalBytes);
+      const wanted = Math.min(length ?? totalBytes - start, totalBytes - start, maxBytes);
+
+      const buffer = Buffer.alloc(wanted);
+      const { bytesRead } = await handle.read(buffer, 0, wanted, start);
+      const data = buffer.subarray(0, bytesRead);
+      const whole = start === 0 && bytesRead === totalBytes;
+
+      return {
+        encoding: 'base64',
+        content: data.toString('base64'),
+        offset: start,
+        bytes_read: bytesRead,
+        total_bytes: totalBytes,
+        truncated: start + bytesRead < totalBytes,
+        mime_type: await detectMimeType(handle),
+        ...(whole && { sha256: sha256(data) }),
+      };
+    } finally {
+      await handle.close();
+    }
+  } catch (err) {
+    return mapNodeError(err as NodeJS.ErrnoException, filePath);
+  }
+}
+
+/**
+ * Read a single file, honouring the line range and a byte limit
+ */
+async function readFileLines(
+  filePath: string,
+  startLine: number,
+  endLine: number,
+  encoding: string | undefined,
+  maxBytes: number
+): Promise<FileReadResult | TonMCPError> {
   try {
     // Check if file exists
     const stats = await fs.stat(filePath);
@@ -45,15 +169,15 @@ export async function fileRead(
     }
 
     // Check file size limit
-    const maxBytes = getConfig('max_file_read_mb') * 1024 * 1024;
     if (stats.size > maxBytes) {
       return createError('INVALID_ARGUMENT', 
-        `File too large: ${formatBytes(stats.size)} (max ${getConfig('max_file_read_mb')}MB)`);
+        `File too large: ${formatBytes(stats.size)} (max ${formatBytes(maxBytes)})`);
     }
 
-    // Read the file
-    const content = await fs.readFile(filePath, encoding);
-    const lines = content.split('\n');
+    // Read the file, detecting its encoding unless one was given
+    const data = await fs.readFile(filePath);
+    const { text, format } = decodeText(data, encoding);
+    const lines = text.split(/\r?\n/);
     const totalLines = lines.length;
 
     // Handle line range
@@ -78,12 +202,168 @@ export async function fileRead(
       total_lines: totalLines,
       read_lines: readLines,
       truncated: actualEnd < totalLines,
+      ...format,
+      sha256: sha256(data),
     };
   } catch (err) {
     return mapNodeError(err as NodeJS.ErrnoException, filePath);
   }
 }
 
+/**
+ * Read several files in parallel.
+ * The whole batch shares one max_file_read_mb budget; files that don't fit
+ * get an error entry instead of aborting the batch.
+ */
+async function fileReadBatch(
+  targets: Array<string | FileReadTarget>,
+  defaults: { startLine: number; endLine: number; encoding: string | undefined }
+): Promise<FileReadBatchResult> {
+  const maxBytes = getConfig('max_file_read_mb') * 1024 * 1024;
+
+  const entries = await Promise.all(targets.map(async (target) => {
+    const spec = typeof target === 'string' ? { path: target } : target;
+    const resolved = await resolveAllowedPath(spec.path);
+    return {
+      path: isError(resolved) ? spec.path : resolved,
+      denied: isError(resolved) ? resolved : null,
+      startLine: spec.start_line ?? defaults.startLine,
+      endLine: spec.end_line ?? defaults.endLine,
+    };
+  }));
+
+  // Stat everything up front so the budget is assigned in request order
+  const sizes = await Promise.all(
+    entries.map(async (entry) => {
+      if (entry.denied) {
+        return 0;
+      }
+      try {
+        const stats = await fs.stat(entry.path);
+        return stats.isDirectory() ? 0 : stats.size;
+      } catch {
+        return 0;
+      }
+    })
+  );
+
+  let remaining = maxBytes;
+  const allowances = sizes.map((size) => {
+    if (size > remaining) {
+      return -1;
+    }
+    remaining -= size;
+    return size;
+  });
+
+  const files = await Promise.all(
+    entries.map(async (entry, i): Promise<FileReadBatchEntry> => {
+      if (entry.denied) {
+        return { path: entry.path, ...entry.denied };
+      }
+      if (allowances[i] === -1) {
+        return {
+          path: entry.path,
+          ...createError('INVALID_ARGUMENT',
+            `Batch read budget of ${getConfig('max_file_read_mb')}MB exhausted ` +
+            `(file is ${formatBytes(sizes[i]!)})`),
+        };
+      }
+
+      // Each read is held to its own share, so a file that grew since the stat can't eat the others'
+      const allowance = allowances[i]!;
+      if (defaults.encoding === 'base64') {
+        return { path: entry.path, ...await readFileBytes(entry.path, 0, undefined, allowance) };
+      }
+      const result = await readImage(entry.path, allowance)
+        ?? await readFileLines(entry.path, entry.startLine, entry.endLine, defaults.encoding, allowance);
+      return { path: entry.path, ...result };
+    })
+  );
+
+  const failed = files.filter((file) => isError(file)).length;
+
+  return {
+    files,
+    succeeded: files.length - failed,
+    failed,
+    total_bytes: maxBytes - remaining,
+  };
+}
+
+export async function fileRead(
+  params: FileReadParams
+): Promise<FileReadResult | FileReadBinaryResult | FileReadBatchResult | TonMCPError> {
+  const startLine = params.start_line ?? 0;
+  const endLine = params.end_line ?? -1;
+  const encoding = params.encoding === undefined ? undefined : normalizeEncoding(params.encoding);
+  if (encoding === null) {
+    return createError('INVALID_ARGUMENT', `Unsupported encoding: ${params.encoding}`);
+  }
+
+  if (encoding !== 'base64' && (params.offset !== undefined || params.length !== undefined)) {
+    return createError('INVALID_ARGUMENT', "offset and length need encoding 'base64'");
+  }
+  if (params.length !== undefined && params.length < 0) {
+    return createError('INVALID_ARGUMENT', 'length must not be negative');
+  }
+
+  if (params.paths !== undefined) {
+    if (params.path !== undefined) {
+      return createError('INVALID_ARGUMENT', 'Specify either path or paths, not both');
+    }
+    if (params.paths.length === 0) {
+      return createError('INVALID_ARGUMENT', 'paths must contain at least one file');
+    }
+    return fileReadBatch(params.paths, { startLine, endLine, encoding });
+  }
+
+  if (params.path === undefined) {
+    return createError('INVALID_ARGUMENT', 'Must specify either path or paths');
+  }
+
+  const filePath = await resolveAllowedPath(params.path);
+  if (isError(filePath)) {
+    return filePath;
+  }
+
+  const maxBytes = getConfig('max_file_read_mb') * 1024 * 1024;
+  if (encoding === 'base64') {
+    return readFileBytes(filePath, params.offset ?? 0, params.length, maxBytes);
+  }
+
+  // Images are returned whole so they can be shown rather than decoded as text
+  const image = await readImage(filePath, maxBytes);
+  if (image) {
+    return image;
+  }
+  return readFileLines(filePath, startLine, endLine, encoding, maxBytes);
+}
+
+/**
+ * The whole file as base64 if it is an image within the size limit, otherwise null
+ */
+async function readImage(filePath: string, maxBytes: number): Promise<FileReadBinaryResult | null> {
+  let mimeType: string | null;
+  try {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      mimeType = await detectMimeType(handle);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Directories and missing files get their errors from the text read
+    return null;
+  }
+
+  if (!mimeType) {
+    return null;
+  }
+  const result = await readFileBytes(filePath, 0, undefined, maxBytes);
+  return isError(result) || result.truncated ? null : result;
+}
+
 // ============================================================================
 // file_write
 // ============================================================================
@@ -93,21 +373,223 @@ export interface FileWriteParams {
   content: string;
   mode?: 'overwrite' | 'append';
   create_dirs?: boolean;
+  // A text encoding, or 'base64' to write the decoded bytes of content
+  encoding?: string;
+  // Override the format of the file being overwritten (new files: UTF-8, no BOM)
+  bom?: boolean;
+  eol?: LineEnding;
+  // Fail with CONFLICT unless the file is still as it was when read
+  expected_sha256?: string;
+  expected_mtime?: string;
 }
 
 export interface FileWriteResult {
   path: string;
   bytes_written: number;
   created: boolean;
+  // Text format written; absent for base64 content
+  encoding?: string;
+  bom?: boolean;
+  eol?: LineEnding | null;
+  // Of the whole file after writing
+  sha256: string;
+}
+
+function unencodable(encoding: string): TonMCPError {
+  return createError('INVALID_ARGUMENT', `Text has characters that ${encoding} can't represent; the file was left unchanged`, {
+    encoding,
+    // Converting the file would garble a misread legacy encoding, so that isn't offered
+    hint: `Use only characters ${encoding} can hold. A file read as latin1 because it isn't valid UTF-8 may be in another legacy encoding.`,
+  });
+}
+
+// Enough of an existing file to tell its encoding and line endings
+const FORMAT_SAMPLE_BYTES = 64 * 1024;
+
+async function readTextFormat(filePath: string): Promise<TextFormat | null> {
+  try {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const sample = Buffer.alloc(FORMAT_SAMPLE_BYTES);
+      const { bytesRead } = await handle.read(sample, 0, sample.length, 0);
+      return decodeText(sample.subarray(0, bytesRead)).format;
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+interface WritePreconditions {
+  expected_sha256?: string;
+  expected_mtime?: string;
+}
+
+/**
+ * Fail with CONFLICT if the file changed since the caller read it.
+ * current is the file's content, if already read.
+ * Best effort: writes check before preparing the new content and again just
+ * before replacing the file, but a change in between those and the rename
+ * itself still goes unnoticed.
+ */
+async function checkPreconditions(
+  filePath: string,
+  expected: WritePreconditions,
+  current?: Buffer
+): Promise<TonMCPError | null> {
+  if (expected.expected_sha256 === undefined && expected.expected_mtime === undefined) {
+    return null;
+  }
+
+  const expectedMtime = expected.expected_mtime === undefined ? undefined : Date.parse(expected.expected_mtime);
+  if (Number.isNaN(expectedMtime)) {
+    return createError('INVALID_ARGUMENT', `expected_mtime is not a date: ${expected.expected_mtime}`);
+  }
+
+  let stats: fsSync.Stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch (err) {
+    const nodeErr = err as NodeJS.ErrnoException;
+    if (nodeErr.code === 'ENOENT') {
+      return createError('CONFLICT', `File was deleted since it was read: ${filePath}`);
+    }
+    return mapNodeError(nodeErr, filePath);
+  }
+
+  if (expectedMtime !== undefined && stats.mtime.getTime() !== expectedMtime) {
+    return createError('CONFLICT', `File was modified since it was read: ${filePath}`, {
+      expected_mtime: expected.expected_mtime,
+      actual_mtime: stats.mtime.toISOString(),
+    });
+  }
+
+  if (expected.expected_sha256 !== undefined) {
+    const actual = sha256(current ?? await fs.readFile(filePath));
+    if (actual !== expected.expected_sha256.toLowerCase()) {
+      return createError('CONFLICT', `File was modified since it was read: ${filePath}`, {
+        expected_sha256: expected.expected_sha256,
+        actual_sha256: actual,
+      });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Replace a file's content all at once: write a temp file beside it, then
+ * rename it over the original, so a crash never leaves a half-written file.
+ * Symlinks are followed so the link stays and its target is replaced; the
+ * original's permissions and owner are kept.
+ * A file with other hard links, or whose owner can't be kept, is overwritten
+ * in place instead, which is not atomic.
+ * beforeReplace runs just before the rename; an error from it leaves the file alone.
+ */
+async function writeFileAtomic(
+  filePath: string,
+  data: Buffer,
+  beforeReplace?: () => Promise<TonMCPError | null>
+): Promise<TonMCPError | null> {
+  const target = await realPathLenient(filePath);
+  const tempPath = path.join(getDirName(target), `.${path.basename(target)}.${randomBytes(6).toString('hex')}.tmp`);
+
+  let stats: fsSync.Stats | undefined;
+  try {
+    stats = await fs.stat(target);
+  } catch {
+    // New file
+  }
+
+  const overwriteInPlace = async () => {
+    const error = await beforeReplace?.();
+    if (error) {
+      return error;
+    }
+    await fs.writeFile(target, data);
+    return null;
+  };
+
+  // Renaming over a hard link would detach it from the file's other names
+  if (stats && stats.nlink > 1) {
+    return overwriteInPlace();
+  }
+
+  try {
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      if (stats) {
+        await handle.chmod(stats.mode & 0o7777);
+        if (process.platform !== 'win32' && (stats.uid !== process.getuid?.() || stats.gid !== process.getgid?.())) {
+          await handle.chown(stats.uid, stats.gid);
+        }
+      }
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch (err) {
+    await fs.rm(tempPath, { force: true });
+    // Only root can give a file away; keeping the owner matters more than atomicity
+    if (stats && (err as NodeJS.ErrnoException).code === 'EPERM') {
+      return overwriteInPlace();
+    }
+    throw err;
+  }
+
+  try {
+    const error = await beforeReplace?.();
+    if (error) {
+      await fs.rm(tempPath, { force: true });
+      return error;
+    }
+    await renameWithRetry(tempPath, target);
+    return null;
+  } catch (err) {
+    await fs.rm(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Windows refuses to replace a file that an editor, indexer or virus scanner
+ * has open for a moment, so retry briefly
+ */
+async function renameWithRetry(from: string, to: string): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fs.rename(from, to);
+      return;
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (process.platform !== 'win32' || (code !== 'EPERM' && code !== 'EBUSY') || attempt >= 5) {
+        throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50 * (attempt + 1)));
+    }
+  }
 }
 
 export async function fileWrite(
   params: FileWriteParams
 ): Promise<FileWriteResult | TonMCPError> {
-  const filePath = normalizePath(params.path);
+  const filePath = await resolveAllowedPath(params.path);
+  if (isError(filePath)) {
+    return filePath;
+  }
   const mode = params.mode ?? 'overwrite';
   const createDirs = params.create_dirs ?? true;
 
+  const encoding = params.encoding === undefined ? undefined : normalizeEncoding(params.encoding);
+  if (encoding === null) {
+    return createError('INVALID_ARGUMENT', `Unsupported encoding: ${params.encoding}`);
+  }
+  if (encoding === 'base64' && !/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(params.content)) {
+    return createError('INVALID_ARGUMENT', 'content is not valid base64');
+  }
+
   try {
     // Check if file already exists
     let fileExisted = false;
@@ -118,23 +600,59 @@ export async function fileWrite(
       fileExisted = false;
     }
 
+    const conflict = await checkPreconditions(filePath, params);
+    if (conflict) {
+      return conflict;
+    }
+
+    let data: Buffer;
+    let format: TextFormat | null = null;
+    if (encoding === 'base64') {
+      data = Buffer.from(params.content, 'base64');
+    } else {
+      // Overwriting keeps the file's encoding, BOM and line endings unless told otherwise
+      const existing = mode === 'overwrite' && fileExisted ? await readTextFormat(filePath) : null;
+      const eol = params.eol ?? existing?.eol ?? null;
+      const text = eol ? convertLineEndings(params.content, eol) : params.content;
+      format = {
+        encoding: encoding ?? existing?.encoding ?? 'utf8',
+        // An appended BOM would land in the middle of the file
+        bom: mode === 'append' ? false : params.bom ?? existing?.bom ?? false,
+        eol: eol ?? detectLineEnding(text),
+      };
+      if (!canEncode(text, format.encoding)) {
+        return unencodable(format.encoding);
+      }
+      data = encodeText(text, format);
+    }
+
     // Create parent directories if needed
     if (createDirs) {
       const dir = getDirName(filePath);
       await fs.mkdir(dir, { recursive: true });
     }
 
-    // Write or append
+    // Write or append. Appends aren't atomic: a crash can leave part of the data
+    // added, and the hash comes from re-reading the file, so it includes anything
+    // another writer appended meanwhile.
+    let hash: string;
     if (mode === 'append') {
-      await fs.appendFile(filePath, params.content, 'utf8');
+      await fs.appendFile(filePath, data);
+      hash = sha256(await fs.readFile(filePath));
     } else {
-      await fs.writeFile(filePath, params.content, 'utf8');
+      const changed = await writeFileAtomic(filePath, data, () => checkPreconditions(filePath, params));
+      if (changed) {
+        return changed;
+      }
+      hash = sha256(data);
     }
 
     return {
       path: filePath,
-      bytes_written: Buffer.byteLength(params.content, 'utf8'),
+      bytes_written: data.length,
       created: !fileExisted,
+      ...format,
+      sha256: hash,
     };
   } catch (err) {
     return mapNodeError(err as NodeJS.ErrnoException, filePath);
@@ -159,7 +677,10 @@ export interface FileDeleteResult {
 export async function fileDelete(
   params: FileDeleteParams
 ): Promise<FileDeleteResult | TonMCPError> {
-  const filePath = normalizePath(params.path);
+  const filePath = await resolveAllowedPath(params.path);
+  if (isError(filePath)) {
+    return filePath;
+  }
   const recursive = params.recursive ?? false;
 
   try {
@@ -202,8 +723,14 @@ export interface FileMoveResult {
 export async function fileMove(
   params: FileMoveParams
 ): Promise<FileMoveResult | TonMCPError> {
-  const sourcePath = normalizePath(params.source);
-  const destPath = normalizePath(params.destination);
+  const sourcePath = await resolveAllowedPath(params.source);
+  if (isError(sourcePath)) {
+    return sourcePath;
+  }
+  const destPath = await resolveAllowedPath(params.destination);
+  if (isError(destPath)) {
+    return destPath;
+  }
   const overwrite = params.overwrite ?? false;
 
   try {
@@ -278,25 +805,34 @@ export interface FileInfoResult {
   readonly: boolean;
   hidden: boolean;
   line_count: number | null;
+  // Text format, for files small enough to be examined
+  encoding: string | null;
+  bom: boolean | null;
+  eol: LineEnding | null;
 }
 
 export async function fileInfo(
   params: FileInfoParams
 ): Promise<FileInfoResult | TonMCPError> {
-  const filePath = normalizePath(params.path);
+  const filePath = await resolveAllowedPath(params.path);
+  if (isError(filePath)) {
+    return filePath;
+  }
 
   try {
     const stats = await fs.stat(filePath);
     const isDirectory = stats.isDirectory();
 
-    // Count lines for text files under 10MB
+    // Count lines and detect the text format for files under 10MB
     let lineCount: number | null = null;
+    let format: TextFormat | null = null;
     if (!isDirectory && stats.size < 10 * 1024 * 1024) {
       try {
-        const content = await fs.readFile(filePath, 'utf8');
-        lineCount = content.split('\n').length;
+        const decoded = decodeText(await fs.readFile(filePath));
+        lineCount = decoded.text.split(/\r?\n/).length;
+        format = decoded.format;
       } catch {
-        // Binary file or encoding issue - skip line count
+        // Unreadable - skip line count
         lineCount = null;
       }
     }
@@ -321,6 +857,9 @@ export async function fileInfo(
       readonly,
       hidden,
       line_count: lineCount,
+      encoding: format?.encoding ?? null,
+      bom: format?.bom ?? null,
+      eol: format?.eol ?? null,
     };
   } catch (err) {
     const nodeErr = err as NodeJS.ErrnoException;
@@ -337,6 +876,9 @@ export async function fileInfo(
         readonly: false,
         hidden: false,
         line_count: null,
+        encoding: null,
+        bom: null,
+        eol: null,
       };
     }
     return mapNodeError(nodeErr, filePath);
@@ -352,23 +894,56 @@ export interface FileEditParams {
   old_text: string;
   new_text: string;
   occurrence?: number;
+  // Override the file's detected format when writing it back
+  encoding?: string;
+  bom?: boolean;
+  eol?: LineEnding;
+  // Fail with CONFLICT unless the file is still as it was when read
+  expected_sha256?: string;
+  expected_mtime?: string;
 }
 
 export interface FileEditResult {
   replacements: number;
   path: string;
+  // Format the file was written in
+  encoding: string;
+  bom: boolean;
+  eol: LineEnding | null;
+  sha256: string;
 }
 
 export async function fileEdit(
   params: FileEditParams
 ): Promise<FileEditResult | TonMCPError> {
-  const filePath = normalizePath(params.path);
-  const { old_text, new_text } = params;
+  const filePath = await resolveAllowedPath(params.path);
+  if (isError(filePath)) {
+    return filePath;
+  }
   const occurrence = params.occurrence ?? 1; // Default to first occurrence
+  const outputEncoding = params.encoding === undefined ? undefined : normalizeEncoding(params.encoding);
+  if (outputEncoding === null || outputEncoding === 'base64') {
+    return createError('INVALID_ARGUMENT', `Unsupported encoding: ${params.encoding}`);
+  }
 
   try {
-    // Read file
-    const content = await fs.readFile(filePath, 'utf8');
+    // Read file in whatever encoding it is in
+    const original = await fs.readFile(filePath);
+    const conflict = await checkPreconditions(filePath, params, original);
+    if (conflict) {
+      return conflict;
+    }
+    const { text: content, format } = decodeText(original);
+
+    // Texts from file_read use \n; match the file's own line endings first
+    let old_text = params.old_text;
+    if (format.eol && !content.includes(old_text)) {
+      old_text = convertLineEndings(old_text, format.eol);
+    }
+    // Inserted lines take the file's line endings; an explicit eol converts everything below
+    const new_text = format.eol && !params.eol
+      ? convertLineEndings(params.new_text, format.eol)
+      : params.new_text;
 
     // Find occurrences
     const occurrences: number[] = [];
@@ -411,12 +986,29 @@ export async function fileEdit(
       replacements = 1;
     }
 
-    // Write back
-    await fs.writeFile(filePath, newContent, 'utf8');
+    // Write back in the original format unless told otherwise
+    const written: TextFormat = {
+      encoding: outputEncoding ?? format.encoding,
+      bom: params.bom ?? format.bom,
+      eol: params.eol ?? format.eol,
+    };
+    if (params.eol) {
+      newContent = convertLineEndings(newContent, params.eol);
+    }
+    if (!canEncode(newContent, written.encoding)) {
+      return unencodable(written.encoding);
+    }
+    const data = encodeText(newContent, written);
+    const changed = await writeFileAtomic(filePath, data, () => checkPreconditions(filePath, params));
+    if (changed) {
+      return changed;
+    }
 
     return {
       replacements,
       path: filePath,
+      ...written,
+      sha256: sha256(data),
     };
   } catch (err) {
     return mapNodeError(err as NodeJS.ErrnoException, filePath);
@@ -470,7 +1062,10 @@ function matchesPattern(filename: string, pattern: string): boolean {
 export async function dirList(
   params: DirListParams
 ): Promise<DirListResult | TonMCPError> {
-  const dirPath = normalizePath(params.path);
+  const dirPath = await resolveAllowedPath(params.path);
+  if (isError(dirPath)) {
+    return dirPath;
+  }
   const depth = params.depth ?? 1;
   const includeHidden = params.include_hidden ?? false;
   const pattern = params.pattern ?? '*';
@@ -577,7 +1172,10 @@ export interface DirCreateResult {
 export async function dirCreate(
   params: DirCreateParams
 ): Promise<DirCreateResult | TonMCPError> {
-  const dirPath = normalizePath(params.path);
+  const dirPath = await resolveAllowedPath(params.path);
+  if (isError(dirPath)) {
+    return dirPath;
+  }
 
   try {
     // Check if already exists
@@ -5,13 +5,43 @@
  * Built by Family Auralis
  */
 
-import { spawn, ChildProcess } from 'child_process';
-import { createError, TonMCPError } from '../utils/errors.js';
-import { normalizePath, getHomeDir } from '../utils/paths.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+import { resolveAllowedPath, getHomeDir } from '../utils/paths.js';
+import { getConfig } from '../config.js';
+import { checkCommandPolicy } from '../utils/policy.js';
+import { killTree } from '../utils/process-tree.js';
+import { evalMarkers, EvalStatus, getReplAdapter, ReplKind } from '../utils/repl.js';
+import {
+  listTranscripts,
+  openTranscript,
+  readTranscript,
+  transcriptPath,
+  Transcript,
+  TranscriptEvent,
+  TranscriptMeta,
+} from '../utils/transcript.js';
+import {
+  spawnPiped,
+  spawnPty,
+  stripAnsi,
+  OutputStream,
+  SessionSignal,
+  TerminalProcess,
+} from '../utils/terminal.js';
 import { randomBytes } from 'crypto';
 
 // Types
-export type InteractiveAction = 'start' | 'write' | 'read' | 'kill' | 'list';
+export type InteractiveAction =
+  | 'start'
+  | 'write'
+  | 'read'
+  | 'wait'
+  | 'kill'
+  | 'list'
+  | 'resize'
+  | 'signal'
+  | 'transcript'
+  | 'eval';
 
 export interface ProcessInteractiveParams {
   action: InteractiveAction;
@@ -19,46 +49,159 @@ export interface ProcessInteractiveParams {
   cwd?: string;
   session_id?: string;
   input?: string;
+  // Leave the input's text out of the transcript (passwords, tokens)
+  secret?: boolean;
   timeout_ms?: number;
+  cursor?: number;
+  expect?: string;
+  pty?: boolean;
+  cols?: number;
+  rows?: number;
+  strip_ansi?: boolean;
+  signal?: SessionSignal;
+  include_chunks?: boolean;
+  confirm?: boolean;
+  transcript?: boolean;
+  limit?: number;
+  name?: string;
+  labels?: Record<string, string>;
+  idle_timeout_ms?: number;
+  max_lifetime_ms?: number;
+  repl?: ReplKind;
+  code?: string;
 }
 
+// Why a session was ended by the server rather than by the caller or the process itself
+export type ReapReason = 'idle_timeout' | 'max_lifetime';
+
 export interface SessionInfo {
   session_id: string;
+  name: string | null;
+  labels: Record<string, string>;
   command: string;
   started: string;
   is_running: boolean;
-  output_lines: number;
+  pty: boolean;
+  // Omitted for finished sessions only known from their transcript
+  output_lines?: number;
+  exit_code: number | null;
+  exit_signal: string | null;
+  ended: string | null;
+  reaped?: ReapReason;
+  repl?: ReplKind;
+  transcript?: string;
+}
+
+export interface OutputChunk {
+  seq: number;
+  stream: OutputStream;
+  time: string;
+  text: string;
+}
+
+export interface ExpectMatch {
+  matched: string;
+  groups: Array<string | null>;
+  named_groups?: Record<string, string>;
+  before: string;
+}
+
+export interface EvalResult {
+  // timeout: still running when timeout_ms elapsed; exited: the REPL died mid-evaluation
+  status: EvalStatus | 'timeout' | 'exited';
+  stdout: string;
+  stderr: string;
+  exception: string | null;
+  duration_ms: number;
+}
+
+export interface TranscriptResult {
+  path: string;
+  meta: TranscriptMeta | null;
+  events: TranscriptEvent[];
+  total_events: number;
 }
 
 export interface ProcessInteractiveResult {
   session_id?: string;
+  name?: string;
   output?: string;
   is_running?: boolean;
+  cursor?: number;
+  dropped_lines?: number;
+  // Unread output from before a write with expect, kept apart from the reply
+  earlier_output?: string;
+  chunks?: OutputChunk[];
+  exit_code?: number | null;
+  exit_signal?: string | null;
+  ended?: string;
+  reaped?: ReapReason;
+  expect?: ExpectMatch;
+  signal_sent?: SessionSignal;
   sessions?: SessionInfo[];
+  transcript?: TranscriptResult;
+  eval?: EvalResult;
+  terminated_pids?: number[];
 }
 
 // Session storage
+interface OutputLine {
+  seq: number;
+  stream: OutputStream;
+  time: number;
+  text: string;
+  // False for a fragment that arrived without a trailing newline (e.g. a prompt)
+  eol: boolean;
+}
+
 interface Session {
-  process: ChildProcess;
-  output: string[];
+  process: TerminalProcess;
+  exited: boolean;
+  exitCode: number | null;
+  exitSignal: string | null;
+  ended: Date | null;
+  // Default for whether read/write strip ANSI escapes from returned output
+  stripAnsi: boolean;
+  output: OutputLine[];
+  // Sequence number the next captured line will get
+  nextSeq: number;
+  // First sequence number not yet returned by read/write
+  readCursor: number;
   started: Date;
   command: string;
   cwd: string;
+  // On-disk log of inputs and outputs, if enabled for this session
+  transcript: Transcript | null;
+  // Caller-chosen name that can be used in place of the session ID
+  name: string | null;
+  labels: Record<string, string>;
+  // Last time the caller interacted with the session, for idle reaping
+  lastActivity: number;
+  // 0 disables the corresponding limit
+  idleTimeoutMs: number;
+  maxLifetimeMs: number;
+  reapTimer: NodeJS.Timeout | null;
+  reaped: ReapReason | null;
+  // REPL adapter used by the eval action, if started with repl
+  repl: ReplKind | null;
 }
 
 const sessions = new Map<string, Session>();
-const MAX_SESSIONS = 10;
-const MAX_OUTPUT_LINES = 1000;
-const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_EXPECT_TIMEOUT_MS = 10000;
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const DEFAULT_LIST_FINISHED = 20;
+const SESSION_NAME_PATTERN = /^[\w.-]+$/;
+// Longest delay setTimeout accepts; later deadlines are re-armed when it fires
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
-// Auto-cleanup dead sessions
+// Auto-cleanup dead sessions; doesn't by itself keep the process alive
 setInterval(() => {
   for (const [id, session] of sessions) {
-    if (session.process.killed || session.process.exitCode !== null) {
+    if (session.exited) {
       sessions.delete(id);
     }
   }
-}, CLEANUP_INTERVAL_MS);
+}, getConfig('session_cleanup_interval_ms')).unref();
 
 /**
  * Generate short session ID
@@ -67,206 +210,906 @@ function generateSessionId(): string {
   return randomBytes(4).toString('hex');
 }
 
+function isSessionRunning(session: Session): boolean {
+  return !session.exited;
+}
+
+/**
+ * Find a session by ID, or by the name it was started with
+ */
+function findSession(idOrName: string): { id: string; session: Session } | undefined {
+  const byId = sessions.get(idOrName);
+  if (byId) {
+    return { id: idOrName, session: byId };
+  }
+  for (const [id, session] of sessions) {
+    if (session.name === idOrName) {
+      return { id, session };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Look up a session the caller is acting on and count it as activity
+ */
+function useSession(idOrName: string): { id: string; session: Session } | TonMCPError {
+  const found = findSession(idOrName);
+  if (!found) {
+    return createError('SESSION_NOT_FOUND', `Session ${idOrName} not found`);
+  }
+  found.session.lastActivity = Date.now();
+  scheduleReap(found.session);
+  return found;
+}
+
+/**
+ * SIGTERM the process and everything it started, then SIGKILL whatever
+ * hasn't exited a second later. Resolves with the PIDs that were terminated.
+ */
+async function terminate(session: Session): Promise<number[]> {
+  session.transcript?.record({ type: 'signal', signal: 'SIGTERM' });
+  const pid = session.process.pid;
+  if (pid === undefined) {
+    session.process.kill('SIGKILL');
+    return [];
+  }
+  return killTree(pid);
+}
+
+/**
+ * (Re)arm the timer that ends a session once it has been idle too long
+ * or has reached its maximum lifetime, whichever comes first
+ */
+function scheduleReap(session: Session): void {
+  if (session.reapTimer) {
+    clearTimeout(session.reapTimer);
+    session.reapTimer = null;
+  }
+  if (!isSessionRunning(session)) {
+    return;
+  }
+
+  const deadlines: Array<{ due: number; reason: ReapReason }> = [];
+  if (session.idleTimeoutMs > 0) {
+    deadlines.push({ due: session.lastActivity + session.idleTimeoutMs, reason: 'idle_timeout' });
+  }
+  if (session.maxLifetimeMs > 0) {
+    deadlines.push({ due: session.started.getTime() + session.maxLifetimeMs, reason: 'max_lifetime' });
+  }
+  if (deadlines.length === 0) {
+    return;
+  }
+
+  const { due, reason } = deadlines.reduce((a, b) => (b.due < a.due ? b : a));
+  session.reapTimer = setTimeout(() => {
+    session.reapTimer = null;
+    if (Date.now() < due) {
+      scheduleReap(session);
+      return;
+    }
+    if (isSessionRunning(session)) {
+      session.reaped = reason;
+      void terminate(session);
+    }
+  }, Math.min(Math.max(0, due - Date.now()), MAX_TIMER_MS));
+  // Don't keep the server alive just to reap a session
+  session.reapTimer.unref();
+}
+
+/**
+ * Reassemble captured fragments into the text the process printed
+ */
+function joinOutput(lines: OutputLine[]): string {
+  return lines.map((line) => (line.eol ? line.text + '\n' : line.text)).join('');
+}
+
+/**
+ * Join output for returning to the caller, stripping ANSI escapes if requested
+ */
+function renderOutput(session: Session, lines: OutputLine[], strip: boolean = session.stripAnsi): string {
+  const text = joinOutput(lines);
+  return strip ? stripAnsi(text) : text;
+}
+
+/**
+ * Split captured data into line fragments and append them to the ring buffer,
+ * each tagged with the stream it came from and when it arrived
+ */
+function appendOutput(session: Session, stream: OutputStream, data: string): void {
+  session.transcript?.record({ type: 'output', stream, text: data });
+
+  const time = Date.now();
+  const pieces = data.split('\n');
+  pieces.forEach((text, i) => {
+    const eol = i < pieces.length - 1;
+    if (eol || text.length > 0) {
+      session.output.push({ seq: session.nextSeq++, stream, time, text, eol });
+    }
+  });
+  // Trim old output to prevent memory bloat
+  const maxLines = getConfig('max_output_lines');
+  if (session.output.length > maxLines) {
+    session.output = session.output.slice(-maxLines);
+  }
+}
+
+/**
+ * Collect buffered lines from a cursor onwards.
+ * dropped_lines counts lines past the cursor that the ring buffer already evicted.
+ */
+function collectOutput(session: Session, since: number): { lines: OutputLine[]; dropped: number } {
+  const oldest = session.output[0]?.seq ?? session.nextSeq;
+  const dropped = since < oldest ? oldest - since : 0;
+  const firstIdx = Math.max(0, since - oldest);
+  return { lines: session.output.slice(firstIdx), dropped };
+}
+
+// How captured output is presented to the caller
+interface OutputView {
+  strip?: boolean;
+  includeChunks?: boolean;
+}
+
+/**
+ * Return everything from a cursor up to (not including) until, by default
+ * all of it, and advance the session's read cursor past what was returned
+ */
+function consumeOutput(
+  sessionId: string,
+  session: Session,
+  since: number,
+  view: OutputView = {},
+  until: number = session.nextSeq
+): ProcessInteractiveResult {
+  const collected = collectOutput(session, since);
+  const lines = collected.lines.filter((line) => line.seq < until);
+  const dropped = collected.dropped;
+  session.readCursor = Math.max(session.readCursor, until);
+
+  return {
+    session_id: sessionId,
+    ...(session.name && { name: session.name }),
+    output: renderOutput(session, lines, view.strip),
+    is_running: isSessionRunning(session),
+    cursor: until,
+    ...(dropped > 0 && { dropped_lines: dropped }),
+    ...(view.includeChunks && { chunks: toChunks(session, lines, view.strip) }),
+    ...exitStatus(session),
+  };
+}
+
+/**
+ * Stream-tagged, timestamped view of captured output
+ */
+function toChunks(session: Session, lines: OutputLine[], strip: boolean = session.stripAnsi): OutputChunk[] {
+  return lines.map((line) => {
+    const text = line.eol ? line.text + '\n' : line.text;
+    return {
+      seq: line.seq,
+      stream: line.stream,
+      time: new Date(line.time).toISOString(),
+      text: strip ? stripAnsi(text) : text,
+    };
+  });
+}
+
+/**
+ * Exit code, signal and end time once the process has exited
+ */
+function exitStatus(
+  session: Session
+): Pick<ProcessInteractiveResult, 'exit_code' | 'exit_signal' | 'ended' | 'reaped'> {
+  if (!session.ended) {
+    return {};
+  }
+  return {
+    exit_code: session.exitCode,
+    exit_signal: session.exitSignal,
+    ended: session.ended.toISOString(),
+    ...(session.reaped && { reaped: session.reaped }),
+  };
+}
+
+/**
+ * Wait until a line with seq >= since arrives, the process exits or the timeout elapses.
+ * With settleMs > 0, keep waiting until output has been quiet that long.
+ */
+function waitForOutput(
+  session: Session,
+  since: number,
+  timeoutMs: number,
+  settleMs: number = 0
+): Promise<void> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    let lastSeq = session.nextSeq;
+    let lastChange = startTime;
+
+    const check = () => {
+      const now = Date.now();
+      if (session.nextSeq !== lastSeq) {
+        lastSeq = session.nextSeq;
+        lastChange = now;
+      }
+
+      const hasOutput = session.nextSeq > since;
+      const settled = now - lastChange >= settleMs;
+
+      if ((hasOutput && settled) || !isSessionRunning(session) || now - startTime >= timeoutMs) {
+        resolve();
+        return;
+      }
+
+      setTimeout(check, 50);
+    };
+
+    check();
+  });
+}
+
+/**
+ * Compile an expect pattern; multiline so ^ and $ anchor to output lines
+ */
+function compileExpect(pattern: string): RegExp | TonMCPError {
+  try {
+    return new RegExp(pattern, 'm');
+  } catch (err) {
+    return createError('INVALID_ARGUMENT', `Invalid expect pattern: ${(err as Error).message}`);
+  }
+}
+
+interface ExpectResult {
+  match: ExpectMatch;
+  // Sequence number just past the line the match ends on
+  until: number;
+}
+
+/**
+ * Wait until the output since a cursor matches the pattern.
+ * Resolves null if the process exits or the timeout elapses first.
+ */
+function expectOutput(
+  session: Session,
+  since: number,
+  regex: RegExp,
+  timeoutMs: number,
+  strip?: boolean
+): Promise<ExpectResult | null> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+
+    const check = () => {
+      const lines = collectOutput(session, since).lines;
+      const rendered = lines.map((line) => renderOutput(session, [line], strip));
+      const text = rendered.join('');
+      const match = regex.exec(text);
+
+      if (match) {
+        // Output after the match stays unread for the next read or expect
+        const end = match.index + match[0].length;
+        let until = since;
+        let offset = 0;
+        for (let i = 0; i < lines.length && offset < end; i++) {
+          offset += rendered[i]!.length;
+          until = lines[i]!.seq + 1;
+        }
+
+        resolve({
+          match: {
+            matched: match[0],
+            groups: match.slice(1).map((group) => group ?? null),
+            ...(match.groups && { named_groups: { ...match.groups } }),
+            before: text.slice(0, match.index),
+          },
+          until,
+        });
+        return;
+      }
+
+      if (!isSessionRunning(session) || Date.now() - startTime >= timeoutMs) {
+        resolve(null);
+        return;
+      }
+
+      setTimeout(check, 50);
+    };
+
+    check();
+  });
+}
+
+/**
+ * Error for an expect that never matched. The read cursor is left alone
+ * so the unmatched output is still returned by the next read.
+ */
+function expectFailed(
+  sessionId: string,
+  session: Session,
+  since: number,
+  regex: RegExp,
+  timeoutMs: number,
+  strip?: boolean
+): TonMCPError {
+  const details = {
+    session_id: sessionId,
+    pattern: regex.source,
+    output: renderOutput(session, collectOutput(session, since).lines, strip),
+    cursor: since,
+  };
+
+  if (!isSessionRunning(session)) {
+    return createError('PROCESS_DIED', 'Process exited before output matched expect pattern', details);
+  }
+  return createError('TIMEOUT', `Output did not match expect pattern within ${timeoutMs}ms`, details);
+}
+
+interface StartOptions {
+  cwd?: string;
+  confirmed?: boolean;
+  expect?: RegExp;
+  timeoutMs?: number;
+  pty?: boolean;
+  cols?: number;
+  rows?: number;
+  stripAnsi?: boolean;
+  includeChunks?: boolean;
+  transcript?: boolean;
+  name?: string;
+  labels?: Record<string, string>;
+  idleTimeoutMs?: number;
+  maxLifetimeMs?: number;
+  repl?: ReplKind;
+}
+
 /**
  * Start a new interactive process
  */
 async function startProcess(
   command: string,
-  cwd?: string
+  options: StartOptions
 ): Promise<ProcessInteractiveResult | TonMCPError> {
+  const { expect } = options;
+  const view: OutputView = { includeChunks: options.includeChunks };
+  const timeoutMs = options.timeoutMs ?? DEFAULT_EXPECT_TIMEOUT_MS;
+
+  const policyError = checkCommandPolicy(command, { confirmed: options.confirmed });
+  if (policyError) {
+    return policyError;
+  }
+
+  const name = options.name ?? null;
+  if (name !== null) {
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      return createError('INVALID_PARAMS', `Invalid session name: ${name} (use letters, digits, '.', '_' or '-')`);
+    }
+    const existing = findSession(name);
+    if (existing) {
+      if (isSessionRunning(existing.session)) {
+        return createError('ALREADY_EXISTS', `Session named ${name} is already running`, {
+          session_id: existing.id,
+        });
+      }
+      // Reusing the name of a finished session replaces it
+      sessions.delete(existing.id);
+    }
+  }
+
   // Check session limit
-  if (sessions.size >= MAX_SESSIONS) {
-    return createError('LIMIT_EXCEEDED', `Maximum ${MAX_SESSIONS} sessions allowed. Kill some first.`);
+  const maxSessions = getConfig('max_sessions');
+  if (sessions.size >= maxSessions) {
+    return createError('LIMIT_EXCEEDED', `Maximum ${maxSessions} sessions allowed. Kill some first.`);
   }
 
-  const workingDir = cwd ? normalizePath(cwd) : getHomeDir();
+  const workingDir = await resolveAllowedPath(options.cwd || getHomeDir());
+  if (isError(workingDir)) {
+    return workingDir;
+  }
   const sessionId = generateSessionId();
 
-  return new Promise((resolve) => {
-    // Parse command into executable and args
-    const parts = command.match(/(?:[^\s"]+|"[^"]*")+/g) || [command];
-    const executable = parts[0];
-    const args = parts.slice(1).map(arg => arg.replace(/^"|"$/g, ''));
-
-    const child = spawn(executable, args, {
-      cwd: workingDir,
-      env: process.env,
-      shell: true,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+  const terminalOptions = { cwd: workingDir, cols: options.cols, rows: options.rows };
+  const child = options.pty
+    ? await spawnPty(command, terminalOptions)
+    : spawnPiped(command, terminalOptions);
 
-    const session: Session = {
-      process: child,
-      output: [],
-      started: new Date(),
-      command,
-      cwd: workingDir,
-    };
+  if (isError(child)) {
+    return child;
+  }
 
-    // Collect output
-    const addOutput = (data: string) => {
-      const lines = data.split('\n');
-      session.output.push(...lines);
-      // Trim old output to prevent memory bloat
-      if (session.output.length > MAX_OUTPUT_LINES) {
-        session.output = session.output.slice(-MAX_OUTPUT_LINES);
-      }
-    };
+  const started = new Date();
+  const useTranscript = options.transcript ?? getConfig('transcripts');
+  const transcript = useTranscript
+    ? openTranscript({
+        session_id: sessionId,
+        name,
+        labels: options.labels ?? {},
+        command,
+        cwd: workingDir,
+        pty: child.isPty,
+        started: started.toISOString(),
+        ended: null,
+        exit_code: null,
+        exit_signal: null,
+      })
+    : null;
 
-    child.stdout?.setEncoding('utf8');
-    child.stdout?.on('data', addOutput);
+  const session: Session = {
+    process: child,
+    exited: false,
+    exitCode: null,
+    exitSignal: null,
+    ended: null,
+    stripAnsi: options.stripAnsi ?? false,
+    output: [],
+    nextSeq: 0,
+    readCursor: 0,
+    started,
+    command,
+    cwd: workingDir,
+    transcript,
+    name,
+    labels: options.labels ?? {},
+    lastActivity: started.getTime(),
+    idleTimeoutMs: options.idleTimeoutMs ?? getConfig('session_idle_timeout_ms'),
+    maxLifetimeMs: options.maxLifetimeMs ?? getConfig('session_max_lifetime_ms'),
+    reapTimer: null,
+    reaped: null,
+    repl: options.repl ?? null,
+  };
 
-    child.stderr?.setEncoding('utf8');
-    child.stderr?.on('data', addOutput);
+  // Collect output
+  child.onData((stream, data) => appendOutput(session, stream, data));
+  child.onExit((code, signal) => {
+    session.exited = true;
+    session.exitCode = code;
+    session.exitSignal = signal;
+    session.ended = new Date();
+    scheduleReap(session);
+    session.transcript?.finish(code, signal);
+  });
+  scheduleReap(session);
 
-    child.on('error', (err) => {
+  return new Promise((resolve) => {
+    child.onError((err) => {
+      session.exited = true;
+      session.ended = new Date();
+      scheduleReap(session);
+      session.transcript?.finish(null, null);
       resolve(createError('PROCESS_ERROR', `Failed to start: ${err.message}`));
     });
 
+    if (expect) {
+      // Wait for the expected output (e.g. a prompt) instead of a fixed delay
+      expectOutput(session, 0, expect, timeoutMs).then((expected) => {
+        if (!expected) {
+          if (isSessionRunning(session)) {
+            sessions.set(sessionId, session);
+          }
+          resolve(expectFailed(sessionId, session, 0, expect, timeoutMs));
+          return;
+        }
+
+        sessions.set(sessionId, session);
+        resolve({ ...consumeOutput(sessionId, session, 0, view, expected.until), expect: expected.match });
+      });
+      return;
+    }
+
     // Give process time to start and produce initial output
     setTimeout(() => {
-      if (child.killed || child.exitCode !== null) {
+      if (!isSessionRunning(session)) {
         resolve(createError('PROCESS_DIED', 'Process exited immediately', {
-          output: session.output.join('\n'),
+          output: renderOutput(session, session.output),
+          exit_code: session.exitCode,
+          exit_signal: session.exitSignal,
         }));
         return;
       }
 
       sessions.set(sessionId, session);
-      resolve({
-        session_id: sessionId,
-        output: session.output.join('\n'),
-        is_running: true,
-      });
+      resolve(consumeOutput(sessionId, session, 0, view));
     }, 500);
   });
 }
 
 /**
- * Write input to a process
+ * Write input to a process.
+ * Waits for the process to respond, then returns everything since the read cursor,
+ * including output that arrived before the write. With expect, only output after
+ * the write is matched and returned; unread output from before it comes back
+ * separately as earlier_output.
  */
 async function writeToProcess(
-  sessionId: string,
-  input: string
+  sessionRef: string,
+  input: string,
+  timeoutMs?: number,
+  expect?: RegExp,
+  view: OutputView = {},
+  secret: boolean = false
 ): Promise<ProcessInteractiveResult | TonMCPError> {
-  const session = sessions.get(sessionId);
-  if (!session) {
-    return createError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
   }
+  const { id: sessionId, session } = found;
 
-  if (session.process.killed || session.process.exitCode !== null) {
+  if (!isSessionRunning(session)) {
     sessions.delete(sessionId);
     return createError('PROCESS_DIED', 'Process is no longer running', {
-      final_output: session.output.join('\n'),
+      final_output: renderOutput(session, collectOutput(session, session.readCursor).lines, view.strip),
+      exit_code: session.exitCode,
+      exit_signal: session.exitSignal,
     });
   }
 
-  // Clear output buffer before writing
-  const outputBefore = session.output.length;
+  const seqBeforeWrite = session.nextSeq;
+  const since = session.readCursor;
 
-  return new Promise((resolve) => {
-    session.process.stdin?.write(input, (err) => {
-      if (err) {
-        resolve(createError('WRITE_ERROR', `Failed to write: ${err.message}`));
-        return;
-      }
+  try {
+    await session.process.write(input);
+  } catch (err) {
+    return createError('WRITE_ERROR', `Failed to write: ${(err as Error).message}`);
+  }
+  session.transcript?.record(secret ? { type: 'input', text: '', redacted: true } : { type: 'input', text: input });
 
-      // Wait for response
-      setTimeout(() => {
-        const newOutput = session.output.slice(outputBefore).join('\n');
-        resolve({
-          session_id: sessionId,
-          output: newOutput,
-          is_running: session.process.exitCode === null && !session.process.killed,
-        });
-      }, 300);
-    });
-  });
+  if (expect) {
+    const expectTimeout = timeoutMs ?? DEFAULT_EXPECT_TIMEOUT_MS;
+    const expected = await expectOutput(session, seqBeforeWrite, expect, expectTimeout, view.strip);
+    if (!expected) {
+      return expectFailed(sessionId, session, seqBeforeWrite, expect, expectTimeout, view.strip);
+    }
+
+    const earlier = collectOutput(session, since).lines.filter((line) => line.seq < seqBeforeWrite);
+    return {
+      ...consumeOutput(sessionId, session, seqBeforeWrite, view, expected.until),
+      ...(earlier.length > 0 && { earlier_output: renderOutput(session, earlier, view.strip) }),
+      expect: expected.match,
+    };
+  }
+
+  // Wait for the response to start, then for it to go quiet
+  await waitForOutput(session, seqBeforeWrite, timeoutMs ?? 1000, 100);
+  return consumeOutput(sessionId, session, since, view);
 }
 
 /**
- * Read output from a process (with timeout)
+ * Read output from a process (with timeout).
+ * Returns everything since the caller's cursor (default: the last read).
  */
 async function readFromProcess(
-  sessionId: string,
-  timeoutMs: number = 5000
+  sessionRef: string,
+  timeoutMs?: number,
+  cursor?: number,
+  expect?: RegExp,
+  view: OutputView = {}
 ): Promise<ProcessInteractiveResult | TonMCPError> {
-  const session = sessions.get(sessionId);
-  if (!session) {
-    return createError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
   }
+  const { id: sessionId, session } = found;
 
-  const outputBefore = session.output.length;
+  const since = cursor ?? session.readCursor;
 
-  return new Promise((resolve) => {
-    const startTime = Date.now();
-    
-    const checkOutput = () => {
-      const newOutput = session.output.slice(outputBefore);
-      const elapsed = Date.now() - startTime;
-      const isRunning = session.process.exitCode === null && !session.process.killed;
-
-      // Return if we have new output, process died, or timeout
-      if (newOutput.length > 0 || !isRunning || elapsed >= timeoutMs) {
-        resolve({
-          session_id: sessionId,
-          output: newOutput.join('\n'),
-          is_running: isRunning,
-        });
-        return;
-      }
+  if (expect) {
+    const expectTimeout = timeoutMs ?? DEFAULT_EXPECT_TIMEOUT_MS;
+    const expected = await expectOutput(session, since, expect, expectTimeout, view.strip);
+    return expected
+      ? { ...consumeOutput(sessionId, session, since, view, expected.until), expect: expected.match }
+      : expectFailed(sessionId, session, since, expect, expectTimeout, view.strip);
+  }
 
-      // Keep checking
-      setTimeout(checkOutput, 100);
-    };
+  await waitForOutput(session, since, timeoutMs ?? 5000);
+  return consumeOutput(sessionId, session, since, view);
+}
 
-    checkOutput();
-  });
+/**
+ * Block until the process exits, then return its remaining output and exit status
+ */
+async function waitForExit(
+  sessionRef: string,
+  timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS,
+  view: OutputView = {}
+): Promise<ProcessInteractiveResult | TonMCPError> {
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
+  }
+  const { id: sessionId, session } = found;
+
+  const since = session.readCursor;
+  const startTime = Date.now();
+
+  while (isSessionRunning(session) && Date.now() - startTime < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  if (isSessionRunning(session)) {
+    return createError('TIMEOUT', `Process still running after ${timeoutMs}ms`, {
+      session_id: sessionId,
+      is_running: true,
+    });
+  }
+
+  return consumeOutput(sessionId, session, since, view);
 }
 
 /**
- * Kill a process
+ * Send a signal or control key (Ctrl+C, Ctrl+Break, EOF) to a session.
+ * Unlike kill, the session is kept so a REPL can carry on after an interrupt.
  */
-function killProcess(sessionId: string): ProcessInteractiveResult | TonMCPError {
-  const session = sessions.get(sessionId);
-  if (!session) {
-    return createError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+async function signalProcess(
+  sessionRef: string,
+  signal: SessionSignal,
+  timeoutMs?: number,
+  view: OutputView = {}
+): Promise<ProcessInteractiveResult | TonMCPError> {
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
   }
+  const { id: sessionId, session } = found;
 
-  const finalOutput = session.output.join('\n');
+  if (!isSessionRunning(session)) {
+    return createError('PROCESS_DIED', 'Process is no longer running');
+  }
 
-  if (!session.process.killed && session.process.exitCode === null) {
-    session.process.kill('SIGTERM');
-    // Force kill after 1 second
-    setTimeout(() => {
-      if (!session.process.killed) {
-        session.process.kill('SIGKILL');
-      }
-    }, 1000);
+  const seqBeforeSignal = session.nextSeq;
+  const since = session.readCursor;
+
+  const signalError = await session.process.signal(signal);
+  if (signalError) {
+    return signalError;
+  }
+  session.transcript?.record({ type: 'signal', signal });
+
+  // Give the process a moment to react (e.g. print KeyboardInterrupt and a new prompt)
+  await waitForOutput(session, seqBeforeSignal, timeoutMs ?? 1000, 100);
+
+  return {
+    ...consumeOutput(sessionId, session, since, view),
+    signal_sent: signal,
+  };
+}
+
+/**
+ * What one stream printed during an evaluation: the text after its start
+ * marker, and the status from its end marker once that has arrived
+ */
+function evalSection(
+  session: Session,
+  since: number,
+  stream: OutputStream,
+  token: string
+): { text: string; status: EvalStatus | null } {
+  const markers = evalMarkers(token);
+  const text = joinOutput(collectOutput(session, since).lines.filter((line) => line.stream === stream));
+
+  const startIdx = text.indexOf(markers.start);
+  if (startIdx === -1) {
+    return { text: '', status: null };
+  }
+
+  const body = text.slice(startIdx + markers.start.length);
+  const end = markers.end.exec(body);
+  return end
+    ? { text: body.slice(0, end.index), status: end[1] as EvalStatus }
+    : { text: body, status: null };
+}
+
+/**
+ * Evaluate a snippet in a REPL session and return exactly its output,
+ * split into stdout, stderr and the exception it raised
+ */
+async function evalInSession(
+  sessionRef: string,
+  code: string,
+  timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS
+): Promise<ProcessInteractiveResult | TonMCPError> {
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
+  }
+  const { id: sessionId, session } = found;
+
+  if (!session.repl) {
+    return createError('INVALID_ARGUMENT', `Session ${sessionRef} was not started with repl`);
+  }
+
+  if (!isSessionRunning(session)) {
+    return createError('PROCESS_DIED', 'Process is no longer running');
+  }
+
+  const token = randomBytes(6).toString('hex');
+  const since = session.nextSeq;
+  const startTime = Date.now();
+
+  try {
+    await session.process.write(getReplAdapter(session.repl).wrap(code, token));
+  } catch (err) {
+    return createError('WRITE_ERROR', `Failed to write: ${(err as Error).message}`);
   }
+  session.transcript?.record({ type: 'input', text: code });
+
+  // Both streams must reach their end marker, or stderr could still be in flight
+  let stdout = evalSection(session, since, 'stdout', token);
+  let stderr = evalSection(session, since, 'stderr', token);
+  while (!(stdout.status && stderr.status) && isSessionRunning(session) && Date.now() - startTime < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    stdout = evalSection(session, since, 'stdout', token);
+    stderr = evalSection(session, since, 'stderr', token);
+  }
+
+  const status = stdout.status && stderr.status
+    ? stdout.status
+    : isSessionRunning(session) ? 'timeout' : 'exited';
+
+  const { exception: exceptionMarker } = evalMarkers(token);
+  const exceptionIdx = stderr.text.indexOf(exceptionMarker);
+
+  session.readCursor = Math.max(session.readCursor, session.nextSeq);
+
+  return {
+    session_id: sessionId,
+    ...(session.name && { name: session.name }),
+    is_running: isSessionRunning(session),
+    cursor: session.nextSeq,
+    eval: {
+      status,
+      stdout: stdout.text,
+      stderr: exceptionIdx === -1 ? stderr.text : stderr.text.slice(0, exceptionIdx),
+      exception: exceptionIdx === -1 ? null : stderr.text.slice(exceptionIdx + exceptionMarker.length).trimEnd(),
+      duration_ms: Date.now() - startTime,
+    },
+    ...exitStatus(session),
+  };
+}
+
+/**
+ * Resize the terminal of a PTY session
+ */
+function resizeProcess(
+  sessionRef: string,
+  cols: number,
+  rows: number
+): ProcessInteractiveResult | TonMCPError {
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
+  }
+  const { id: sessionId, session } = found;
+
+  if (!session.process.isPty) {
+    return createError('INVALID_ARGUMENT', 'Resize is only supported for sessions started with pty: true');
+  }
+
+  if (!isSessionRunning(session)) {
+    return createError('PROCESS_DIED', 'Process is no longer running');
+  }
+
+  session.process.resize(cols, rows);
+
+  return {
+    session_id: sessionId,
+    is_running: true,
+  };
+}
+
+/**
+ * Kill a process and its descendants
+ */
+async function killProcess(sessionRef: string): Promise<ProcessInteractiveResult | TonMCPError> {
+  const found = useSession(sessionRef);
+  if (isError(found)) {
+    return found;
+  }
+  const { id: sessionId, session } = found;
+
+  const finalOutput = renderOutput(session, session.output);
 
   sessions.delete(sessionId);
 
+  const terminatedPids = isSessionRunning(session) ? await terminate(session) : [];
+
   return {
     session_id: sessionId,
+    ...(session.name && { name: session.name }),
     output: finalOutput,
     is_running: false,
+    terminated_pids: terminatedPids,
+  };
+}
+
+/**
+ * Return the on-disk transcript of a live or finished session
+ */
+async function getTranscript(
+  sessionRef: string,
+  limit?: number
+): Promise<ProcessInteractiveResult | TonMCPError> {
+  const found = findSession(sessionRef);
+  if (found && !found.session.transcript) {
+    return createError('INVALID_ARGUMENT', `Session ${sessionRef} was started without a transcript`);
+  }
+
+  // A finished session's name is only known from its transcript metadata
+  const sessionId = found?.id
+    ?? (await listTranscripts()).find((meta) => meta.name === sessionRef)?.session_id
+    ?? sessionRef;
+
+  // Session IDs become file names in the transcript directory
+  if (!/^[\w-]+$/.test(sessionId)) {
+    return createError('INVALID_PARAMS', `Invalid session_id: ${sessionId}`);
+  }
+
+  const transcript = await readTranscript(sessionId, limit);
+  if (!transcript) {
+    return createError('SESSION_NOT_FOUND', `No transcript found for session ${sessionRef}`);
+  }
+
+  return {
+    session_id: sessionId,
+    ...(transcript.meta?.name && { name: transcript.meta.name }),
+    is_running: found ? isSessionRunning(found.session) : false,
+    transcript,
   };
 }
 
 /**
- * List all sessions
+ * True if every label in the filter is set to the same value
+ */
+function matchesLabels(labels: Record<string, string> | undefined, filter: Record<string, string>): boolean {
+  return Object.entries(filter).every(([key, value]) => labels?.[key] === value);
+}
+
+/**
+ * List live sessions, followed by the most recent finished sessions
+ * that are no longer in memory but still have a transcript on disk
  */
-function listSessions(): ProcessInteractiveResult {
+async function listSessions(
+  limit: number = DEFAULT_LIST_FINISHED,
+  labels: Record<string, string> = {}
+): Promise<ProcessInteractiveResult> {
   const sessionList: SessionInfo[] = [];
 
   for (const [id, session] of sessions) {
+    if (!matchesLabels(session.labels, labels)) {
+      continue;
+    }
     sessionList.push({
       session_id: id,
+      name: session.name,
+      labels: session.labels,
       command: session.command,
       started: session.started.toISOString(),
-      is_running: session.process.exitCode === null && !session.process.killed,
+      is_running: isSessionRunning(session),
+      pty: session.process.isPty,
       output_lines: session.output.length,
+      exit_code: session.exitCode,
+      exit_signal: session.exitSignal,
+      ended: session.ended?.toISOString() ?? null,
+      ...(session.reaped && { reaped: session.reaped }),
+      ...(session.repl && { repl: session.repl }),
+      ...(session.transcript && { transcript: session.transcript.path }),
+    });
+  }
+
+  const finished = (await listTranscripts()).filter(
+    (meta) => !sessions.has(meta.session_id) && matchesLabels(meta.labels, labels)
+  );
+  for (const meta of finished.slice(0, limit)) {
+    sessionList.push({
+      session_id: meta.session_id,
+      name: meta.name ?? null,
+      labels: meta.labels ?? {},
+      command: meta.command,
+      started: meta.started,
+      is_running: false,
+      pty: meta.pty,
+      exit_code: meta.exit_code,
+      exit_signal: meta.exit_signal,
+      ended: meta.ended,
+      transcript: transcriptPath(meta.session_id),
     });
   }
 
@@ -279,14 +1122,45 @@ function listSessions(): ProcessInteractiveResult {
 export async function processInteractive(
   params: ProcessInteractiveParams
 ): Promise<ProcessInteractiveResult | TonMCPError> {
-  const { action, command, cwd, session_id, input, timeout_ms } = params;
+  const { action, command, cwd, session_id, input, timeout_ms, cursor, strip_ansi } = params;
+  const view: OutputView = { strip: strip_ansi, includeChunks: params.include_chunks };
+
+  let expect: RegExp | undefined;
+  if (params.expect !== undefined) {
+    const compiled = compileExpect(params.expect);
+    if (isError(compiled)) {
+      return compiled;
+    }
+    expect = compiled;
+  }
 
   switch (action) {
-    case 'start':
-      if (!command) {
-        return createError('INVALID_PARAMS', 'Command required for start action');
+    case 'start': {
+      if (params.repl && params.pty) {
+        return createError('INVALID_PARAMS', 'repl sessions need separate stdout and stderr, so pty is not supported');
       }
-      return startProcess(command, cwd);
+      const startCommand = command ?? (params.repl && getReplAdapter(params.repl).command());
+      if (!startCommand) {
+        return createError('INVALID_PARAMS', 'Command or repl required for start action');
+      }
+      return startProcess(startCommand, {
+        cwd,
+        confirmed: params.confirm,
+        expect,
+        timeoutMs: timeout_ms,
+        pty: params.pty,
+        cols: params.cols,
+        rows: params.rows,
+        stripAnsi: strip_ansi,
+        includeChunks: params.include_chunks,
+        transcript: params.transcript,
+        name: params.name,
+        labels: params.labels,
+        idleTimeoutMs: params.idle_timeout_ms,
+        maxLifetimeMs: params.max_lifetime_ms,
+        repl: params.repl,
+      });
+    }
 
     case 'write':
       if (!session_id) {
@@ -295,13 +1169,37 @@ export async function processInteractive(
       if (input === undefined) {
         return createError('INVALID_PARAMS', 'input required for write action');
       }
-      return writeToProcess(session_id, input);
+      return writeToProcess(session_id, input, timeout_ms, expect, view, params.secret);
 
     case 'read':
       if (!session_id) {
         return createError('INVALID_PARAMS', 'session_id required for read action');
       }
-      return readFromProcess(session_id, timeout_ms);
+      return readFromProcess(session_id, timeout_ms, cursor, expect, view);
+
+    case 'wait':
+      if (!session_id) {
+        return createError('INVALID_PARAMS', 'session_id required for wait action');
+      }
+      return waitForExit(session_id, timeout_ms, view);
+
+    case 'resize':
+      if (!session_id) {
+        return createError('INVALID_PARAMS', 'session_id required for resize action');
+      }
+      if (!params.cols || !params.rows) {
+        return createError('INVALID_PARAMS', 'cols and rows required for resize action');
+      }
+      return resizeProcess(session_id, params.cols, params.rows);
+
+    case 'signal':
+      if (!session_id) {
+        return createError('INVALID_PARAMS', 'session_id required for signal action');
+      }
+      if (!params.signal) {
+        return createError('INVALID_PARAMS', 'signal required for signal action');
+      }
+      return signalProcess(session_id, params.signal, timeout_ms, view);
 
     case 'kill':
       if (!session_id) {
@@ -309,8 +1207,23 @@ export async function processInteractive(
       }
       return killProcess(session_id);
 
+    case 'eval':
+      if (!session_id) {
+        return createError('INVALID_PARAMS', 'session_id required for eval action');
+      }
+      if (params.code === undefined) {
+        return createError('INVALID_PARAMS', 'code required for eval action');
+      }
+      return evalInSession(session_id, params.code, timeout_ms);
+
+    case 'transcript':
+      if (!session_id) {
+        return createError('INVALID_PARAMS', 'session_id required for transcript action');
+      }
+      return getTranscript(session_id, params.limit);
+
     case 'list':
-      return listSessions();
+      return listSessions(params.limit, params.labels);
 
     default:
       return createError('INVALID_PARAMS', `Unknown action: ${action}`);
@@ -0,0 +1,225 @@
+/**
+ * TonMCP Background Jobs
+ * Run shell commands in the background and check on them later
+ */
+
+import { randomBytes } from 'crypto';
+import { Execution, ExecuteOptions, ShellType, startExecution } from '../utils/powershell.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+
+export type JobAction = 'status' | 'tail' | 'wait' | 'cancel' | 'list';
+
+export type JobStatus = 'running' | 'exited' | 'timed_out' | 'cancelled' | 'failed';
+
+export interface ShellJobParams {
+  action: JobAction;
+  job_id?: string;
+  lines?: number;
+  timeout_ms?: number;
+  limit?: number;
+}
+
+export interface JobInfo {
+  job_id: string;
+  command: string;
+  shell: ShellType;
+  cwd: string;
+  pid: number | null;
+  status: JobStatus;
+  exit_code: number | null;
+  started: string;
+  ended: string | null;
+  duration_ms: number;
+  error?: string;
+  terminated_pids?: number[];
+  // Set once output exceeded max_output_bytes; page through it with shell_output
+  output_id?: string;
+}
+
+export interface ShellJobResult {
+  job?: JobInfo;
+  stdout?: string;
+  stderr?: string;
+  jobs?: JobInfo[];
+}
+
+interface Job {
+  id: string;
+  command: string;
+  shell: ShellType;
+  cwd: string;
+  execution: Execution;
+  status: JobStatus;
+  exitCode: number | null;
+  error: string | null;
+  // Process tree taken down by a timeout or cancel
+  terminatedPids: number[] | null;
+  started: Date;
+  ended: Date | null;
+}
+
+const jobs = new Map<string, Job>();
+const MAX_FINISHED_JOBS = 50;
+const DEFAULT_TAIL_LINES = 50;
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * Forget the oldest finished jobs beyond the retention limit
+ */
+function pruneFinishedJobs(): void {
+  const finished = [...jobs.values()].filter((job) => job.status !== 'running');
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.id);
+  }
+}
+
+/**
+ * Start a command in the background and return its job info immediately
+ */
+export function startJob(
+  command: string,
+  options: ExecuteOptions & { shell: ShellType; cwd: string }
+): JobInfo {
+  const job: Job = {
+    id: randomBytes(4).toString('hex'),
+    command,
+    shell: options.shell,
+    cwd: options.cwd,
+    execution: startExecution(command, options),
+    status: 'running',
+    exitCode: null,
+    error: null,
+    terminatedPids: null,
+    started: new Date(),
+    ended: null,
+  };
+
+  job.execution.result.then((result) => {
+    job.ended = new Date();
+    if (!isError(result)) {
+      job.status = 'exited';
+      job.exitCode = result.exitCode;
+    } else {
+      job.status = result.code === 'TIMEOUT' ? 'timed_out' : result.code === 'CANCELLED' ? 'cancelled' : 'failed';
+      job.error = result.message;
+      job.terminatedPids = (result.details?.terminated_pids as number[] | undefined) ?? null;
+    }
+    pruneFinishedJobs();
+  });
+
+  jobs.set(job.id, job);
+  return toJobInfo(job);
+}
+
+function toJobInfo(job: Job): JobInfo {
+  return {
+    job_id: job.id,
+    command: job.command,
+    shell: job.shell,
+    cwd: job.cwd,
+    pid: job.execution.pid ?? null,
+    status: job.status,
+    exit_code: job.exitCode,
+    started: job.started.toISOString(),
+    ended: job.ended?.toISOString() ?? null,
+    duration_ms: (job.ended ?? new Date()).getTime() - job.started.getTime(),
+    ...(job.error && { error: job.error }),
+    ...(job.terminatedPids && { terminated_pids: job.terminatedPids }),
+    ...(job.execution.outputId && { output_id: job.execution.outputId }),
+  };
+}
+
+/**
+ * Last n lines of captured output
+ */
+function tailLines(text: string, lines: number): string {
+  return text.trimEnd().split('\n').slice(-lines).join('\n');
+}
+
+function getJob(jobId: string): Job | TonMCPError {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return createError('JOB_NOT_FOUND', `Job ${jobId} not found`);
+  }
+  return job;
+}
+
+/**
+ * Wait for a job to finish, up to timeoutMs
+ */
+async function settle(job: Job, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    job.execution.result,
+    new Promise((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Main entry point
+ */
+export async function shellJob(params: ShellJobParams): Promise<ShellJobResult | TonMCPError> {
+  const { action, job_id } = params;
+
+  if (action === 'list') {
+    const list = [...jobs.values()]
+      .sort((a, b) => b.started.getTime() - a.started.getTime())
+      .slice(0, params.limit ?? DEFAULT_LIST_LIMIT)
+      .map(toJobInfo);
+    return { jobs: list };
+  }
+
+  if (!job_id) {
+    return createError('INVALID_PARAMS', `job_id required for ${action} action`);
+  }
+
+  const job = getJob(job_id);
+  if (isError(job)) {
+    return job;
+  }
+
+  switch (action) {
+    case 'status':
+      return { job: toJobInfo(job) };
+
+    case 'tail': {
+      const lines = params.lines ?? DEFAULT_TAIL_LINES;
+      return {
+        job: toJobInfo(job),
+        stdout: tailLines(job.execution.stdout, lines),
+        stderr: tailLines(job.execution.stderr, lines),
+      };
+    }
+
+    case 'wait': {
+      const timeoutMs = params.timeout_ms ?? DEFAULT_WAIT_TIMEOUT_MS;
+      await settle(job, timeoutMs);
+      if (job.status === 'running') {
+        return createError('TIMEOUT', `Job still running after ${timeoutMs}ms`, {
+          job_id: job.id,
+          status: job.status,
+        });
+      }
+      return {
+        job: toJobInfo(job),
+        stdout: job.execution.stdout.trim(),
+        stderr: job.execution.stderr.trim(),
+      };
+    }
+
+    case 'cancel':
+      if (job.status === 'running') {
+        job.execution.cancel();
+        // SIGKILL follows SIGTERM after a second, so this is normally enough
+        await settle(job, 3000);
+      }
+      return { job: toJobInfo(job) };
+
+    default:
+      return createError('INVALID_PARAMS', `Unknown action: ${action}`);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * TonMCP Output Tool
+ * Page through or grep command output that was too large to return inline
+ */
+
+import * as fs from 'fs/promises';
+import { getConfig } from '../config.js';
+import { createError, TonMCPError } from '../utils/errors.js';
+import {
+  CapturedStream,
+  grepOutput,
+  OutputMatch,
+  readOutputPage,
+  spillPath,
+} from '../utils/output.js';
+
+export interface ShellOutputParams {
+  output_id: string;
+  stream?: CapturedStream;
+  start_line?: number;
+  end_line?: number;
+  grep?: string;
+  ignore_case?: boolean;
+  max_matches?: number;
+}
+
+export interface ShellOutputResult {
+  output_id: string;
+  stream: CapturedStream;
+  total_lines: number;
+  // Paging
+  start_line?: number;
+  end_line?: number;
+  text?: string;
+  // Grep
+  matches?: OutputMatch[];
+  total_matches?: number;
+}
+
+const DEFAULT_PAGE_LINES = 200;
+const DEFAULT_MAX_MATCHES = 100;
+
+/**
+ * Read a line range of, or grep, spilled output
+ */
+export async function shellOutput(
+  params: ShellOutputParams
+): Promise<ShellOutputResult | TonMCPError> {
+  const stream = params.stream ?? 'stdout';
+  const file = spillPath(params.output_id, stream);
+  if (!file) {
+    return createError('INVALID_PARAMS', `Invalid output_id: ${params.output_id}`);
+  }
+
+  try {
+    await fs.access(file);
+  } catch {
+    return createError('FILE_NOT_FOUND', `No spilled ${stream} for output ${params.output_id}`, {
+      hint: 'Only streams that exceeded max_output_bytes are kept, and only for the most recent outputs',
+    });
+  }
+
+  if (params.grep !== undefined) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(params.grep, params.ignore_case ? 'i' : '');
+    } catch (err) {
+      return createError('INVALID_ARGUMENT', `Invalid grep pattern: ${(err as Error).message}`);
+    }
+
+    const result = await grepOutput(file, regex, params.max_matches ?? DEFAULT_MAX_MATCHES);
+    return { output_id: params.output_id, stream, ...result };
+  }
+
+  const startLine = Math.max(1, params.start_line ?? 1);
+  const endLine = params.end_line ?? startLine + DEFAULT_PAGE_LINES - 1;
+  if (endLine < startLine) {
+    return createError('INVALID_ARGUMENT', 'end_line must not be before start_line');
+  }
+
+  // Pages are held to the same cap as inline output
+  const page = await readOutputPage(file, startLine, endLine, getConfig('max_output_bytes'));
+  return { output_id: params.output_id, stream, ...page };
+}
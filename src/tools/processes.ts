@@ -1,9 +1,9 @@
 /**
  * TonMCP Process Tools
- * List and kill processes using CIM/WMI
+ * List and kill processes via the platform process provider
  */
 
-import { executeJson, execute } from '../utils/powershell.js';
+import { getProcessProvider } from '../providers/processes.js';
 import { createError, isError, TonMCPError } from '../utils/errors.js';
 
 // ============================================================================
@@ -30,18 +30,6 @@ export interface ProcessesResult {
   total_count: number;
 }
 
-interface RawProcessInfo {
-  ProcessId: number;
-  Name: string;
-  WorkingSetSize: number;
-  CreationDate: string | null;
-}
-
-interface RawCpuInfo {
-  IDProcess: number;
-  PercentProcessorTime: number;
-}
-
 export async function processes(
   params: ProcessesParams
 ): Promise<ProcessesResult | TonMCPError> {
@@ -49,52 +37,12 @@ export async function processes(
   const limit = params.limit ?? 30;
   const filter = params.filter;
 
-  // Get process list with working set (memory)
-  let processCommand = `Get-CimInstance -ClassName Win32_Process | ` +
-    `Select-Object ProcessId, Name, WorkingSetSize, CreationDate`;
-  
-  if (filter) {
-    processCommand += ` | Where-Object { $_.Name -like "*${filter}*" }`;
-  }
-
-  const processResult = await executeJson<RawProcessInfo[]>(processCommand);
-  
-  if (isError(processResult)) {
-    return processResult;
-  }
+  const processList = await getProcessProvider().list(filter);
 
-  // Get CPU usage per process (this is a snapshot, not accurate for real-time)
-  // Using Get-Counter is more accurate but slower
-  const cpuCommand = `Get-CimInstance -ClassName Win32_PerfFormattedData_PerfProc_Process | ` +
-    `Select-Object IDProcess, PercentProcessorTime`;
-  
-  const cpuResult = await executeJson<RawCpuInfo[]>(cpuCommand);
-  
-  // Build CPU lookup map (may fail on some systems, so we default to 0)
-  const cpuMap = new Map<number, number>();
-  if (!isError(cpuResult) && Array.isArray(cpuResult)) {
-    for (const item of cpuResult) {
-      if (item.IDProcess && item.PercentProcessorTime !== undefined) {
-        cpuMap.set(item.IDProcess, item.PercentProcessorTime);
-      }
-    }
+  if (isError(processList)) {
+    return processList;
   }
 
-  // Handle single result (PowerShell returns object instead of array)
-  const rawProcesses = Array.isArray(processResult) ? processResult : [processResult];
-
-  // Transform and aggregate
-  const processList: ProcessInfo[] = rawProcesses
-    .filter((p): p is RawProcessInfo => p !== null && p.ProcessId !== undefined)
-    .map((p) => ({
-      pid: p.ProcessId,
-      name: p.Name || 'Unknown',
-      memory_mb: Math.round((p.WorkingSetSize || 0) / (1024 * 1024) * 10) / 10,
-      cpu_percent: cpuMap.get(p.ProcessId) ?? 0,
-      status: 'running',
-      start_time: p.CreationDate || null,
-    }));
-
   // Sort
   const sortFn = (a: ProcessInfo, b: ProcessInfo): number => {
     switch (sortBy) {
@@ -130,6 +78,7 @@ export interface ProcessKillParams {
   pid?: number;
   name?: string;
   force?: boolean;
+  signal?: NodeJS.Signals;
 }
 
 export interface ProcessKillResult {
@@ -141,64 +90,40 @@ export interface ProcessKillResult {
 export async function processKill(
   params: ProcessKillParams
 ): Promise<ProcessKillResult | TonMCPError> {
-  const { pid, name, force } = params;
+  const { pid, name, force, signal } = params;
 
   if (!pid && !name) {
     return createError('INVALID_ARGUMENT', 'Must specify either pid or name');
   }
 
+  if (signal && process.platform === 'win32') {
+    return createError('INVALID_ARGUMENT', 'Signals are not supported on Windows; use force instead');
+  }
+
+  const provider = getProcessProvider();
   const killed: number[] = [];
   const failed: number[] = [];
 
+  let pids: number[];
   if (pid) {
-    // Kill by PID
-    const forceFlag = force ? '-Force' : '';
-    const command = `Stop-Process -Id ${pid} ${forceFlag} -PassThru -ErrorAction Stop | Select-Object Id`;
-    
-    const result = await execute(command);
-    
-    if (isError(result)) {
-      failed.push(pid);
-    } else if (result.exitCode === 0) {
-      killed.push(pid);
-    } else {
-      failed.push(pid);
-    }
-  } else if (name) {
+    pids = [pid];
+  } else {
     // Kill by name (all matching processes)
-    const forceFlag = force ? '-Force' : '';
-    
-    // First get list of PIDs matching the name
-    const listCommand = `Get-Process -Name "${name}" -ErrorAction SilentlyContinue | Select-Object Id | ConvertTo-Json -Compress`;
-    const listResult = await execute(listCommand);
-    
-    if (isError(listResult)) {
-      return createError('PROCESS_NOT_FOUND', `No processes found matching: ${name}`);
+    const found = await provider.findByName(name!);
+    if (isError(found)) {
+      return found;
     }
-
-    if (!listResult.stdout.trim()) {
+    if (found.length === 0) {
       return createError('PROCESS_NOT_FOUND', `No processes found matching: ${name}`);
     }
+    pids = found;
+  }
 
-    let pids: number[] = [];
-    try {
-      const parsed = JSON.parse(listResult.stdout);
-      const items = Array.isArray(parsed) ? parsed : [parsed];
-      pids = items.map((p: { Id: number }) => p.Id);
-    } catch {
-      return createError('PARSE_ERROR', 'Failed to parse process list');
-    }
-
-    // Kill each process
-    for (const processPid of pids) {
-      const killCommand = `Stop-Process -Id ${processPid} ${forceFlag} -ErrorAction SilentlyContinue`;
-      const killResult = await execute(killCommand);
-      
-      if (!isError(killResult) && killResult.exitCode === 0) {
-        killed.push(processPid);
-      } else {
-        failed.push(processPid);
-      }
+  for (const processPid of pids) {
+    if (await provider.kill(processPid, force ?? false, signal)) {
+      killed.push(processPid);
+    } else {
+      failed.push(processPid);
     }
   }
 
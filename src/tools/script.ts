@@ -0,0 +1,233 @@
+/**
+ * TonMCP Script Tool
+ * Run a recipe of shell commands, stopping at the first failure,
+ * or a whole script body with a chosen interpreter
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { resolveShell, ShellType } from '../utils/powershell.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+import { checkCommandPolicy } from '../utils/policy.js';
+import { getConfig } from '../config.js';
+import { shellExec, ShellExecResult } from './shell.js';
+
+export const SCRIPT_INTERPRETERS = ['pwsh', 'powershell', 'cmd', 'bash', 'sh', 'zsh', 'python', 'node'] as const;
+
+export type ScriptInterpreter = typeof SCRIPT_INTERPRETERS[number];
+
+export interface ScriptStep {
+  command: string;
+  cwd?: string;
+  shell?: ShellType;
+  timeout_ms?: number;
+  // Carry on with the next step even if this one fails
+  continue_on_error?: boolean;
+}
+
+export interface ShellScriptParams {
+  steps?: ScriptStep[];
+  script?: string;
+  interpreter?: ScriptInterpreter;
+  // Defaults for steps without their own
+  cwd?: string;
+  shell?: ShellType;
+  timeout_ms?: number;
+  confirm?: boolean;
+}
+
+export type StepStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface ScriptStepResult {
+  step: number;
+  command: string;
+  status: StepStatus;
+  stdout?: string;
+  stderr?: string;
+  exit_code?: number;
+  duration_ms?: number;
+  output_id?: string;
+  // Set if the step could not run to completion (timeout, policy, bad cwd...)
+  error?: TonMCPError;
+}
+
+export interface ShellScriptResult {
+  // completed_with_errors: only continue_on_error steps failed
+  status: 'succeeded' | 'completed_with_errors' | 'failed';
+  // First failed step that stopped the script
+  failed_step?: number;
+  duration_ms: number;
+  steps: ScriptStepResult[];
+}
+
+interface InterpreterSpec {
+  shell: ShellType;
+  extension: string;
+  command(file: string): string;
+}
+
+const SCRIPT_DIR = path.join(os.tmpdir(), 'tonmcp-scripts');
+
+/**
+ * How a script file is run: the shell that launches it and the command line
+ */
+function getInterpreter(interpreter: ScriptInterpreter): InterpreterSpec {
+  switch (interpreter) {
+    case 'pwsh':
+    case 'powershell':
+      return {
+        shell: interpreter,
+        extension: '.ps1',
+        // Windows' default execution policy refuses to run script files.
+        // -Command reports only success or failure, so pass on the script's exit code.
+        command: (file) => [
+          'if ($IsWindows -ne $false) { Set-ExecutionPolicy -Scope Process -ExecutionPolicy Bypass -Force }',
+          `& '${file.replace(/'/g, "''")}'`,
+          'if ($LASTEXITCODE) { exit $LASTEXITCODE } elseif (-not $?) { exit 1 }',
+        ].join('; '),
+      };
+    case 'cmd':
+      return { shell: 'cmd', extension: '.cmd', command: (file) => `"${file}"` };
+    case 'bash':
+    case 'sh':
+    case 'zsh':
+      return { shell: interpreter, extension: '.sh', command: (file) => `${interpreter} "${file}"` };
+    case 'python':
+      return {
+        shell: resolveShell(getConfig('default_shell')),
+        extension: '.py',
+        command: (file) => `${process.platform === 'win32' ? 'python' : 'python3'} "${file}"`,
+      };
+    case 'node':
+      return {
+        shell: resolveShell(getConfig('default_shell')),
+        extension: '.mjs',
+        command: (file) => `node "${file}"`,
+      };
+  }
+}
+
+async function runStep(
+  index: number,
+  step: ScriptStep,
+  defaults: ShellScriptParams
+): Promise<ScriptStepResult> {
+  const result = await shellExec({
+    command: step.command,
+    shell: step.shell ?? defaults.shell,
+    cwd: step.cwd ?? defaults.cwd,
+    timeout_ms: step.timeout_ms ?? defaults.timeout_ms,
+    confirm: defaults.confirm,
+  });
+
+  if (isError(result)) {
+    return { step: index, command: step.command, status: 'failed', error: result };
+  }
+
+  const execResult = result as ShellExecResult;
+  return {
+    step: index,
+    command: step.command,
+    status: execResult.exit_code === 0 ? 'succeeded' : 'failed',
+    stdout: execResult.stdout,
+    stderr: execResult.stderr,
+    exit_code: execResult.exit_code,
+    duration_ms: execResult.duration_ms,
+    ...(execResult.output_id && { output_id: execResult.output_id }),
+  };
+}
+
+/**
+ * Write a script body to a temp file and run it as a single step
+ */
+async function runScriptBody(params: ShellScriptParams & { script: string }): Promise<ScriptStepResult> {
+  const interpreter = params.interpreter ?? resolveShell(getConfig('default_shell'));
+  const spec = getInterpreter(interpreter);
+
+  // The body is what actually runs, so the policy applies to it as well as to the launcher
+  const policyError = checkCommandPolicy(params.script, { confirmed: params.confirm });
+  if (policyError) {
+    return { step: 0, command: params.script, status: 'failed', error: policyError };
+  }
+
+  const file = path.join(SCRIPT_DIR, `${randomBytes(6).toString('hex')}${spec.extension}`);
+  const command = spec.command(file);
+
+  try {
+    await fs.mkdir(SCRIPT_DIR, { recursive: true });
+    // Windows PowerShell reads a .ps1 without a byte order mark in the ANSI code page
+    const body = spec.extension === '.ps1' ? `\uFEFF${params.script}` : params.script;
+    await fs.writeFile(file, body, 'utf8');
+  } catch (err) {
+    return {
+      step: 0,
+      command,
+      status: 'failed',
+      error: createError('WRITE_ERROR', `Failed to write script file: ${(err as Error).message}`),
+    };
+  }
+
+  try {
+    return await runStep(0, { command, shell: spec.shell }, params);
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+/**
+ * Run steps in order, stopping at the first failure unless the step allows it,
+ * or run a script body. Reports every step, including the ones skipped.
+ */
+export async function shellScript(params: ShellScriptParams): Promise<ShellScriptResult | TonMCPError> {
+  const hasSteps = params.steps !== undefined;
+  const hasScript = params.script !== undefined;
+  if (hasSteps === hasScript) {
+    return createError('INVALID_PARAMS', 'Provide either steps or script');
+  }
+  if (hasSteps && params.steps!.length === 0) {
+    return createError('INVALID_PARAMS', 'steps must not be empty');
+  }
+  if (params.interpreter && !hasScript) {
+    return createError('INVALID_PARAMS', 'interpreter only applies to script');
+  }
+
+  const startTime = Date.now();
+  const results: ScriptStepResult[] = [];
+  let failedStep: number | undefined;
+  let tolerated = false;
+
+  if (hasScript) {
+    const result = await runScriptBody({ ...params, script: params.script! });
+    results.push(result);
+    if (result.status === 'failed') {
+      failedStep = 0;
+    }
+  } else {
+    const steps = params.steps!;
+    for (let i = 0; i < steps.length; i++) {
+      if (failedStep !== undefined) {
+        results.push({ step: i, command: steps[i]!.command, status: 'skipped' });
+        continue;
+      }
+
+      const result = await runStep(i, steps[i]!, params);
+      results.push(result);
+      if (result.status === 'failed') {
+        if (steps[i]!.continue_on_error) {
+          tolerated = true;
+        } else {
+          failedStep = i;
+        }
+      }
+    }
+  }
+
+  return {
+    status: failedStep !== undefined ? 'failed' : tolerated ? 'completed_with_errors' : 'succeeded',
+    ...(failedStep !== undefined && { failed_step: failedStep }),
+    duration_ms: Date.now() - startTime,
+    steps: results,
+  };
+}
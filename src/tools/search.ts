@@ -4,7 +4,7 @@
  */
 
 import { execute, isCommandAvailable } from '../utils/powershell.js';
-import { normalizePath } from '../utils/paths.js';
+import { resolveAllowedPath } from '../utils/paths.js';
 import { createError, isError, TonMCPError } from '../utils/errors.js';
 import { getConfig } from '../config.js';
 
@@ -195,7 +195,10 @@ async function searchWithPowerShell(
 export async function search(
   params: SearchParams
 ): Promise<SearchResult | TonMCPError> {
-  const searchPath = normalizePath(params.path);
+  const searchPath = await resolveAllowedPath(params.path);
+  if (isError(searchPath)) {
+    return searchPath;
+  }
   const pattern = params.pattern;
   const type = params.type ?? 'files';
   const filePattern = params.file_pattern ?? '*';
@@ -0,0 +1,363 @@
+/**
+ * TonMCP Shell Sessions
+ * Long-lived shells for shell_exec, so cd, environment variables and
+ * activated virtualenvs carry over from one command to the next
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { randomBytes } from 'crypto';
+import { getShellExecutable, ShellType } from '../utils/powershell.js';
+import { killTree, trackProcessGroup } from '../utils/process-tree.js';
+import { resolveAllowedPath } from '../utils/paths.js';
+import { EXIT_DRAIN_MS } from '../utils/terminal.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+import { getConfig } from '../config.js';
+
+export interface ShellSessionResult {
+  stdout: string;
+  stderr: string;
+  exit_code: number;
+  duration_ms: number;
+  session: string;
+  // Working directory once the command has finished
+  cwd: string;
+  // True if the command ended the shell (e.g. exit); the next call starts a fresh one
+  session_ended?: boolean;
+  // True if an earlier shell of this name had ended, so cd, variables etc. were lost
+  session_restarted?: boolean;
+}
+
+interface ShellSession {
+  name: string;
+  shell: ShellType;
+  child: ChildProcess;
+  // Output of the command currently running
+  stdout: string;
+  stderr: string;
+  exited: boolean;
+  exitCode: number | null;
+  // Set if the shell could not be started
+  spawnError: string | null;
+  cwd: string;
+  // Commands run one at a time; each waits for the previous one
+  queue: Promise<unknown>;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+const shellSessions = new Map<string, ShellSession>();
+// Names whose shell ended (exit, timeout, idle) and hasn't been started again
+const endedSessions = new Set<string>();
+const SESSION_NAME_PATTERN = /^[\w.-]+$/;
+const POLL_MS = 20;
+
+/**
+ * Encode a command so it reaches the shell as one line whatever it contains
+ */
+function toOctalEscapes(text: string): string {
+  return [...Buffer.from(text, 'utf8')].map((byte) => '\\0' + byte.toString(8).padStart(3, '0')).join('');
+}
+
+function toBase64(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64');
+}
+
+function quotePosix(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Input that runs one command between start and end markers. The end marker
+ * on stdout carries the exit code and the resulting working directory.
+ * The command gets an empty stdin so it can't swallow the lines that follow.
+ */
+function wrapCommand(shell: ShellType, command: string, token: string, cwd?: string): string {
+  if (shell === 'pwsh' || shell === 'powershell') {
+    const decode = (text: string) => `([Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${toBase64(text)}')))`;
+    const program = [
+      '. {',
+      '  param($__tonmcp_src, $__tonmcp_tok, $__tonmcp_cwd)',
+      '  [Console]::Out.Write("<<<$($__tonmcp_tok):start>>>`n"); [Console]::Error.Write("<<<$($__tonmcp_tok):start>>>`n")',
+      '  $global:LASTEXITCODE = 0',
+      '  $__tonmcp_ok = $true',
+      '  try {',
+      '    if ($__tonmcp_cwd) { Set-Location -LiteralPath $__tonmcp_cwd -ErrorAction Stop }',
+      '    $__tonmcp_items = @(. ([scriptblock]::Create($__tonmcp_src)) 2>&1)',
+      '    $__tonmcp_ok = $?',
+      '    $__tonmcp_values = @($__tonmcp_items | Where-Object { $_ -isnot [System.Management.Automation.ErrorRecord] })',
+      '    if ($__tonmcp_values.Count -gt 0) { [Console]::Out.Write(($__tonmcp_values | Out-String)) }',
+      '    $__tonmcp_items | Where-Object { $_ -is [System.Management.Automation.ErrorRecord] } | ForEach-Object { $__tonmcp_ok = $false; [Console]::Error.WriteLine($_.ToString()) }',
+      '  } catch {',
+      '    $__tonmcp_ok = $false',
+      '    [Console]::Error.WriteLine($_.ToString())',
+      '  }',
+      '  $__tonmcp_code = if ($LASTEXITCODE) { $LASTEXITCODE } elseif ($__tonmcp_ok) { 0 } else { 1 }',
+      '  [Console]::Out.Write("`n<<<$($__tonmcp_tok):end:$($__tonmcp_code):$((Get-Location).ProviderPath)>>>`n"); [Console]::Error.Write("`n<<<$($__tonmcp_tok):end>>>`n")',
+      `} ${decode(command)} '${token}' ${cwd ? decode(cwd) : "''"}`,
+    ].join('\n');
+    return `. ([scriptblock]::Create(${decode(program)}))\n`;
+  }
+
+  const changeDir = cwd ? `cd -- ${quotePosix(cwd)} && ` : '';
+  return [
+    `printf '<<<%s:start>>>\\n' ${token}; printf '<<<%s:start>>>\\n' ${token} >&2`,
+    `${changeDir}eval "$(printf '%b' '${toOctalEscapes(command)}')" </dev/null`,
+    '__tonmcp_status=$?',
+    `printf '\\n<<<%s:end:%s:%s>>>\\n' ${token} "$__tonmcp_status" "$PWD"; printf '\\n<<<%s:end>>>\\n' ${token} >&2`,
+  ].join('\n') + '\n';
+}
+
+function shellArgs(shell: ShellType): string[] {
+  if (shell === 'pwsh' || shell === 'powershell') {
+    return ['-NoProfile', '-NonInteractive', '-Command', '-'];
+  }
+  // POSIX shells read the script from stdin
+  return [];
+}
+
+/**
+ * End a session after it has gone unused for session_idle_timeout_ms
+ */
+function touchSession(session: ShellSession): void {
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  }
+  const idleMs = getConfig('session_idle_timeout_ms');
+  if (idleMs > 0) {
+    session.idleTimer = setTimeout(() => closeShellSession(session), idleMs);
+    session.idleTimer.unref();
+  }
+}
+
+function forgetSession(session: ShellSession): void {
+  if (shellSessions.get(session.name) === session) {
+    shellSessions.delete(session.name);
+    endedSessions.add(session.name);
+  }
+}
+
+function closeShellSession(session: ShellSession): Promise<number[]> {
+  forgetSession(session);
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+  }
+  if (session.exited || session.child.pid === undefined) {
+    return Promise.resolve([]);
+  }
+  return killTree(session.child.pid);
+}
+
+function openShellSession(name: string, shell: ShellType, cwd: string): ShellSession | TonMCPError {
+  if (shell === 'cmd') {
+    return createError('INVALID_ARGUMENT', 'Shell sessions support pwsh, powershell, bash, sh and zsh, not cmd');
+  }
+
+  const maxSessions = getConfig('max_sessions');
+  if (shellSessions.size >= maxSessions) {
+    return createError('LIMIT_EXCEEDED', `Maximum ${maxSessions} shell sessions allowed. End one with exit first.`);
+  }
+
+  const child = spawn(getShellExecutable(shell), shellArgs(shell), {
+    cwd,
+    env: process.env,
+    windowsHide: true,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    // Own process group on POSIX so the whole tree can be terminated
+    detached: process.platform !== 'win32',
+  });
+  trackProcessGroup(child);
+
+  const session: ShellSession = {
+    name,
+    shell,
+    child,
+    stdout: '',
+    stderr: '',
+    exited: false,
+    exitCode: null,
+    spawnError: null,
+    cwd,
+    queue: Promise.resolve(),
+    idleTimer: null,
+  };
+
+  child.stdout?.setEncoding('utf8');
+  child.stderr?.setEncoding('utf8');
+  child.stdout?.on('data', (data: string) => {
+    session.stdout += data;
+  });
+  child.stderr?.on('data', (data: string) => {
+    session.stderr += data;
+  });
+  const ended = (code: number | null) => {
+    if (session.exited) return;
+    session.exited = true;
+    session.exitCode = code;
+    forgetSession(session);
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+  };
+  // A command left running in the background can hold the pipes open after
+  // the shell exits, so 'close' may never come; wait a bounded time after 'exit'
+  child.on('exit', (code) => {
+    setTimeout(() => ended(code), EXIT_DRAIN_MS).unref();
+  });
+  child.on('close', ended);
+  child.on('error', (err) => {
+    session.exited = true;
+    session.spawnError = err.message;
+    forgetSession(session);
+  });
+  child.stdin?.on('error', () => {});
+
+  shellSessions.set(name, session);
+  return session;
+}
+
+/**
+ * Text a stream printed after the start marker, and the end marker match once it has arrived
+ */
+function section(text: string, token: string, end: RegExp): { body: string; end: RegExpExecArray | null } {
+  const start = `<<<${token}:start>>>\n`;
+  const startIdx = text.indexOf(start);
+  if (startIdx === -1) {
+    return { body: '', end: null };
+  }
+  const body = text.slice(startIdx + start.length);
+  const match = end.exec(body);
+  return { body: match ? body.slice(0, match.index) : body, end: match };
+}
+
+async function runCommand(
+  session: ShellSession,
+  command: string,
+  options: { cwd?: string; timeoutMs: number }
+): Promise<ShellSessionResult | TonMCPError> {
+  const token = randomBytes(6).toString('hex');
+  const stdoutEnd = new RegExp(`\\n<<<${token}:end:(-?\\d+):(.*)>>>\\r?\\n`);
+  const stderrEnd = new RegExp(`\\n<<<${token}:end>>>\\r?\\n`);
+  const startTime = Date.now();
+
+  session.stdout = '';
+  session.stderr = '';
+  session.child.stdin?.write(wrapCommand(session.shell, command, token, options.cwd));
+
+  let out = section(session.stdout, token, stdoutEnd);
+  let err = section(session.stderr, token, stderrEnd);
+  // Both end markers are needed, or the tail of stderr could still be in flight
+  while (!(out.end && err.end) && !session.exited && Date.now() - startTime < options.timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+    out = section(session.stdout, token, stdoutEnd);
+    err = section(session.stderr, token, stderrEnd);
+  }
+
+  const durationMs = Date.now() - startTime;
+
+  if (out.end && err.end) {
+    session.cwd = out.end[2]!;
+    return {
+      stdout: out.body.trim(),
+      stderr: err.body.trim(),
+      exit_code: Number(out.end[1]),
+      duration_ms: durationMs,
+      session: session.name,
+      cwd: session.cwd,
+    };
+  }
+
+  if (session.spawnError) {
+    return createError('COMMAND_FAILED', `Failed to start ${session.shell}: ${session.spawnError}`, {
+      session: session.name,
+    });
+  }
+
+  if (session.exited) {
+    return {
+      stdout: out.body.trim(),
+      stderr: err.body.trim(),
+      exit_code: session.exitCode ?? 1,
+      duration_ms: durationMs,
+      session: session.name,
+      cwd: session.cwd,
+      session_ended: true,
+    };
+  }
+
+  // The shell is stuck on this command; it can't take the next one
+  const terminatedPids = await closeShellSession(session);
+  return createError('TIMEOUT', `Command timed out after ${options.timeoutMs}ms; session ${session.name} was ended`, {
+    command,
+    session: session.name,
+    partialStdout: out.body.slice(0, 1000),
+    partialStderr: err.body.slice(0, 1000),
+    terminated_pids: terminatedPids,
+  });
+}
+
+/**
+ * Run a command in the named shell session, starting the shell if needed.
+ * For an existing session, cwd changes directory before the command runs;
+ * a new one starts in cwd, or defaultCwd if none was given. Only those are
+ * checked against allowed_roots. An explicitly given shell must be the one
+ * the session already runs.
+ */
+export async function runInShellSession(
+  name: string,
+  command: string,
+  options: { shell: ShellType; shellGiven: boolean; cwd?: string; defaultCwd: string; timeoutMs: number }
+): Promise<ShellSessionResult | TonMCPError> {
+  if (!SESSION_NAME_PATTERN.test(name)) {
+    return createError('INVALID_PARAMS', `Invalid session name: ${name} (use letters, digits, '.', '_' or '-')`);
+  }
+
+  let cwd = options.cwd !== undefined ? await resolveAllowedPath(options.cwd) : undefined;
+  if (isError(cwd)) {
+    return cwd;
+  }
+
+  let session = shellSessions.get(name);
+  let restarted = false;
+
+  if (!session) {
+    const startCwd = cwd ?? await resolveAllowedPath(options.defaultCwd);
+    if (isError(startCwd)) {
+      return startCwd;
+    }
+    // Another call may have started it while the path was checked
+    session = shellSessions.get(name);
+    if (!session) {
+      const opened = openShellSession(name, options.shell, startCwd);
+      if (isError(opened)) {
+        return opened;
+      }
+      session = opened;
+      cwd = undefined;
+      restarted = endedSessions.delete(name);
+    }
+  }
+
+  if (options.shellGiven && session.shell !== options.shell) {
+    return createError('INVALID_PARAMS', `Shell session ${name} runs ${session.shell}, not ${options.shell}`, {
+      session: name,
+      shell: session.shell,
+    });
+  }
+
+  const target = session;
+  touchSession(target);
+
+  const run = target.queue.then(() => {
+    if (target.exited) {
+      return createError('PROCESS_DIED', `Shell session ${name} has ended`, { exit_code: target.exitCode });
+    }
+    return runCommand(target, command, { cwd, timeoutMs: options.timeoutMs });
+  });
+  target.queue = run.catch(() => {});
+
+  const result = await run;
+  if (!target.exited) {
+    touchSession(target);
+  }
+  return restarted && !isError(result) ? { ...result, session_restarted: true } : result;
+}
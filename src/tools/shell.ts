@@ -3,16 +3,40 @@
  * Execute shell commands with full output capture
  */
 
-import { execute, ShellType, ExecuteResult } from '../utils/powershell.js';
-import { normalizePath, getHomeDir } from '../utils/paths.js';
-import { isError, TonMCPError } from '../utils/errors.js';
+import {
+  execute,
+  resolveShell,
+  ShellType,
+  ExecuteOptions,
+  ExecuteResult,
+  toJsonCommand,
+  parseJsonOutput,
+  MAX_JSON_DEPTH,
+} from '../utils/powershell.js';
+import { resolveAllowedPath, getHomeDir } from '../utils/paths.js';
+import { createError, isError, TonMCPError } from '../utils/errors.js';
+import { checkCommandPolicy } from '../utils/policy.js';
 import { getConfig } from '../config.js';
+import { OutputEncoding } from '../utils/console-encoding.js';
+import { startJob, JobInfo } from './jobs.js';
+import { runInShellSession, ShellSessionResult } from './shell-sessions.js';
 
 export interface ShellExecParams {
   command: string;
   shell?: ShellType;
   cwd?: string;
   timeout_ms?: number;
+  confirm?: boolean;
+  background?: boolean;
+  session?: string;
+  env?: Record<string, string>;
+  env_mode?: 'merge' | 'replace';
+  unset_env?: string[];
+  stdin?: string;
+  output_encoding?: OutputEncoding;
+  output?: 'text' | 'json';
+  json_depth?: number;
+  select?: string[];
 }
 
 export interface ShellExecResult {
@@ -20,29 +44,115 @@ export interface ShellExecResult {
   stderr: string;
   exit_code: number;
   duration_ms: number;
+  // Set when output exceeded max_output_bytes; page through it with shell_output
+  output_id?: string;
+  stdout_bytes?: number;
+  stdout_lines?: number;
+  stderr_bytes?: number;
+  stderr_lines?: number;
+}
+
+export interface ShellExecJsonResult {
+  // Objects the command wrote, as ConvertTo-Json produced them (null if none)
+  data: unknown;
+  stderr: string;
+  exit_code: number;
+  duration_ms: number;
+}
+
+export interface ShellExecBackgroundResult {
+  job: JobInfo;
 }
 
 const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_JSON_DEPTH = 2;
 
 /**
- * Execute a shell command and return structured output
+ * Execute a shell command and return structured output.
+ * With background, return a job straight away instead (see shell_job).
+ * With output 'json', return PowerShell's output objects as parsed JSON.
  */
 export async function shellExec(
   params: ShellExecParams
-): Promise<ShellExecResult | TonMCPError> {
+): Promise<ShellExecResult | ShellExecJsonResult | ShellExecBackgroundResult | ShellSessionResult | TonMCPError> {
   const { command, timeout_ms } = params;
+
+  const policyError = checkCommandPolicy(command, { confirmed: params.confirm });
+  if (policyError) {
+    return policyError;
+  }
   
-  // Get shell - use param, then config default, then 'pwsh'
-  const shell = params.shell || getConfig('default_shell') || 'pwsh';
+  // Get shell - use param, then config default, then the platform default
+  const shell = resolveShell(params.shell || getConfig('default_shell'));
   
-  // Get working directory - use param, then config default, then home
-  const cwd = params.cwd 
-    ? normalizePath(params.cwd) 
-    : getConfig('default_cwd') || getHomeDir();
+
+  const invalidName = [...Object.keys(params.env ?? {}), ...(params.unset_env ?? [])]
+    .find((name) => !name || name.includes('='));
+  if (invalidName !== undefined) {
+    return createError('INVALID_PARAMS', `Invalid environment variable name: ${invalidName}`);
+  }
+
+  const io: ExecuteOptions = {
+    env: params.env,
+    envMode: params.env_mode,
+    unsetEnv: params.unset_env,
+    stdin: params.stdin,
+    maxOutputBytes: getConfig('max_output_bytes'),
+    outputEncoding: params.output_encoding ?? getConfig('output_encoding'),
+  };
+
+  if (params.output === 'json') {
+    if (shell !== 'pwsh' && shell !== 'powershell') {
+      return createError('INVALID_PARAMS', `output 'json' needs pwsh or powershell, not ${shell}`);
+    }
+    if (params.background || params.session) {
+      return createError('INVALID_PARAMS', `output 'json' cannot be combined with background or session`);
+    }
+    if (params.json_depth !== undefined && !(params.json_depth >= 0 && params.json_depth <= MAX_JSON_DEPTH)) {
+      return createError('INVALID_PARAMS', `json_depth must be between 0 and ${MAX_JSON_DEPTH}`);
+    }
+  } else if (params.json_depth !== undefined || params.select) {
+    return createError('INVALID_PARAMS', `json_depth and select need output 'json'`);
+  }
 
   const timeout = timeout_ms || DEFAULT_TIMEOUT_MS;
+  const defaultCwd = getConfig('default_cwd') || getHomeDir();
+
+  if (params.session) {
+    if (params.background) {
+      return createError('INVALID_PARAMS', 'background and session cannot be combined');
+    }
+    // The session's shell already exists, so its environment, stdin and encoding are fixed
+    if (params.env || params.env_mode || params.unset_env || params.stdin !== undefined || params.output_encoding) {
+      return createError('INVALID_PARAMS', 'env, env_mode, unset_env, stdin and output_encoding cannot be combined with session');
+    }
+    // The session checks cwd itself: an existing shell only needs one that was given
+    return runInShellSession(params.session, command, {
+      shell,
+      shellGiven: params.shell !== undefined,
+      cwd: params.cwd,
+      defaultCwd,
+      timeoutMs: timeout,
+    });
+  }
+
+  // Get working directory - use param, then config default, then home
+  const cwd = await resolveAllowedPath(params.cwd || defaultCwd);
+  if (isError(cwd)) {
+    return cwd;
+  }
+
+  // Background jobs run until they exit or are cancelled unless given a timeout
+  if (params.background) {
+    return { job: startJob(command, { ...io, shell, cwd, timeoutMs: timeout_ms ?? 0 }) };
+  }
+
+  if (params.output === 'json') {
+    return shellExecJson(command, { ...io, shell, cwd, timeoutMs: timeout }, params);
+  }
 
   const result = await execute(command, {
+    ...io,
     shell,
     cwd,
     timeoutMs: timeout,
@@ -60,5 +170,57 @@ export async function shellExec(
     stderr: execResult.stderr,
     exit_code: execResult.exitCode,
     duration_ms: execResult.durationMs,
+    ...(execResult.spill && {
+      output_id: execResult.spill.outputId,
+      stdout_bytes: execResult.spill.stdoutBytes,
+      stdout_lines: execResult.spill.stdoutLines,
+      stderr_bytes: execResult.spill.stderrBytes,
+      stderr_lines: execResult.spill.stderrLines,
+    }),
+  };
+}
+
+/**
+ * Run a PowerShell command through ConvertTo-Json and parse what it wrote
+ */
+async function shellExecJson(
+  command: string,
+  options: ExecuteOptions,
+  params: ShellExecParams
+): Promise<ShellExecJsonResult | TonMCPError> {
+  const jsonCommand = toJsonCommand(command, {
+    depth: params.json_depth ?? DEFAULT_JSON_DEPTH,
+    select: params.select,
+  });
+
+  const result = await execute(jsonCommand, options);
+  if (isError(result)) {
+    return result;
+  }
+
+  const execResult = result as ExecuteResult;
+  // Only part of the JSON is in memory, which won't parse
+  if (execResult.spill) {
+    return createError('LIMIT_EXCEEDED', `JSON output is ${execResult.spill.stdoutBytes} bytes, over max_output_bytes`, {
+      output_id: execResult.spill.outputId,
+      hint: 'Narrow it with select or a lower json_depth, or page through it with shell_output',
+    });
+  }
+
+  const data = parseJsonOutput(execResult.stdout);
+  if (isError(data)) {
+    // Usually a native program's text output, or a command that failed before writing objects
+    return createError('PARSE_ERROR', 'Command output is not JSON', {
+      output: execResult.stdout.slice(0, 500),
+      stderr: execResult.stderr,
+      exit_code: execResult.exitCode,
+    });
+  }
+
+  return {
+    data: data ?? null,
+    stderr: execResult.stderr,
+    exit_code: execResult.exitCode,
+    duration_ms: execResult.durationMs,
   };
 }
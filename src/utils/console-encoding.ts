@@ -0,0 +1,130 @@
+/**
+ * TonMCP Console Encoding
+ * Decode command output written in Windows console code pages
+ */
+
+import { execFileSync } from 'child_process';
+
+export const OUTPUT_ENCODINGS = [
+  'auto', 'utf8', 'utf16le',
+  'cp866', 'cp1250', 'cp1251', 'cp1252', 'cp1253', 'cp1254', 'cp1255', 'cp1256', 'cp1257', 'cp1258',
+  'cp932', 'cp936', 'cp949', 'cp950',
+] as const;
+
+export type OutputEncoding = typeof OUTPUT_ENCODINGS[number];
+
+export interface OutputDecoder {
+  /** Text for a chunk; a character split across chunks is held back until the rest arrives */
+  write(chunk: Buffer): string;
+  /** Whatever is still held back once the stream has ended */
+  end(): string;
+}
+
+// TextDecoder labels by Windows code page
+const CODE_PAGE_LABELS: Record<number, string> = {
+  65001: 'utf-8',
+  1200: 'utf-16le',
+  866: 'ibm866',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+};
+
+let legacyCodePage: number | null | undefined;
+
+/**
+ * Windows code page for an encoding; auto asks for UTF-8
+ */
+export function consoleCodePage(encoding: OutputEncoding): number {
+  switch (encoding) {
+    case 'auto':
+    case 'utf8':
+      return 65001;
+    case 'utf16le':
+      return 1200;
+    default:
+      return Number(encoding.slice(2));
+  }
+}
+
+/**
+ * Code page a new Windows console starts with (the OEM code page), detected once.
+ * Null elsewhere, or if it can't be determined.
+ */
+function getLegacyCodePage(): number | null {
+  if (legacyCodePage === undefined) {
+    legacyCodePage = null;
+    if (process.platform === 'win32') {
+      try {
+        // "Active code page: 866" in whatever language Windows is set to
+        const output = execFileSync('cmd', ['/d', '/c', 'chcp'], {
+          encoding: 'latin1',
+          windowsHide: true,
+          timeout: 5000,
+        });
+        const match = /(\d+)\D*$/.exec(output);
+        if (match) legacyCodePage = Number(match[1]);
+      } catch {
+        // Keep UTF-8
+      }
+    }
+  }
+  return legacyCodePage;
+}
+
+/**
+ * Guess the encoding of output from its first chunk. A UTF-16 byte order mark,
+ * or zero high bytes, mean UTF-16LE. Bytes that aren't valid UTF-8 come from a
+ * program that ignored the console code page and wrote in the legacy one.
+ */
+function sniffEncoding(chunk: Buffer): string {
+  if (chunk[0] === 0xff && chunk[1] === 0xfe) {
+    return 'utf-16le';
+  }
+
+  if (chunk.length >= 4) {
+    let zeros = 0;
+    for (let i = 1; i < chunk.length; i += 2) {
+      if (chunk[i] === 0) zeros++;
+    }
+    if (zeros >= chunk.length / 4) {
+      return 'utf-16le';
+    }
+  }
+
+  try {
+    // Streaming, so a character cut off at the end of the chunk isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(chunk, { stream: true });
+    return 'utf-8';
+  } catch {
+    const codePage = getLegacyCodePage();
+    return (codePage !== null && CODE_PAGE_LABELS[codePage]) || 'utf-8';
+  }
+}
+
+/**
+ * Decoder for one output stream. Byte order marks are dropped.
+ */
+export function createOutputDecoder(encoding: OutputEncoding): OutputDecoder {
+  let decoder = encoding === 'auto' ? null : new TextDecoder(CODE_PAGE_LABELS[consoleCodePage(encoding)]);
+
+  return {
+    write(chunk) {
+      decoder ??= new TextDecoder(sniffEncoding(chunk));
+      return decoder.decode(chunk, { stream: true });
+    },
+    end() {
+      return decoder ? decoder.decode() : '';
+    },
+  };
+}
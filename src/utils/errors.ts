@@ -16,6 +16,17 @@ export type ErrorCode =
   | 'ALREADY_EXISTS'
   | 'TEXT_NOT_FOUND'
   | 'PROCESS_NOT_FOUND'
+  | 'PROCESS_ERROR'
+  | 'PROCESS_DIED'
+  | 'SESSION_NOT_FOUND'
+  | 'JOB_NOT_FOUND'
+  | 'WRITE_ERROR'
+  | 'INVALID_PARAMS'
+  | 'LIMIT_EXCEEDED'
+  | 'ACCESS_DENIED_OUTSIDE_ROOT'
+  | 'POLICY_DENIED'
+  | 'CANCELLED'
+  | 'CONFLICT'
   | 'UNKNOWN_ERROR';
 
 export interface TonMCPError {
@@ -0,0 +1,309 @@
+/**
+ * TonMCP Output Capture
+ * Bounded capture of command output: past a byte cap, output is written to
+ * a temp file and only its head and tail are kept in memory
+ */
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export type CapturedStream = 'stdout' | 'stderr';
+
+export interface OutputCapture {
+  append(data: string): void;
+  /** Everything captured, or head and tail around a truncation notice once spilled */
+  text(): string;
+  readonly totalBytes: number;
+  readonly totalLines: number;
+  readonly spilled: boolean;
+}
+
+/** A command's stdout and stderr, captured under one byte budget */
+export interface OutputCaptures {
+  readonly stdout: OutputCapture;
+  readonly stderr: OutputCapture;
+  /** Set once either stream has been spilled to a temp file */
+  readonly outputId: string | null;
+  /** Flush the spill files; from then on they may be pruned */
+  close(): Promise<void>;
+}
+
+interface StreamState {
+  readonly stream: CapturedStream;
+  // Everything captured, until the stream is spilled
+  buffer: string;
+  totalBytes: number;
+  totalLines: number;
+  // Once spilled, the first and last bytes of the stream
+  head: string;
+  tail: string;
+  file: fs.WriteStream | null;
+}
+
+const OUTPUT_ROOT = path.join(os.tmpdir(), 'tonmcp-output');
+const MAX_SPILLED_OUTPUTS = 20;
+const OUTPUT_ID_PATTERN = /^[\da-f]+$/;
+
+// Spills of commands still running (e.g. background jobs), which pruning leaves alone
+const liveSpills = new Set<string>();
+
+/**
+ * Path of a spilled stream, or null if the id is malformed
+ */
+export function spillPath(outputId: string, stream: CapturedStream): string | null {
+  if (!OUTPUT_ID_PATTERN.test(outputId)) {
+    return null;
+  }
+  return path.join(OUTPUT_ROOT, outputId, `${stream}.log`);
+}
+
+/**
+ * Remove the oldest finished spills beyond the retention limit
+ */
+function pruneSpills(): void {
+  try {
+    const dirs = fs.readdirSync(OUTPUT_ROOT)
+      .filter((name) => !liveSpills.has(name))
+      .map((name) => ({ name, mtime: fs.statSync(path.join(OUTPUT_ROOT, name)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+    for (const dir of dirs.slice(MAX_SPILLED_OUTPUTS)) {
+      fs.rmSync(path.join(OUTPUT_ROOT, dir.name), { recursive: true, force: true });
+    }
+  } catch {
+    // Nothing to prune
+  }
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * The first maxBytes of text in UTF-8, without splitting a character
+ */
+function headBytes(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= maxBytes) {
+    return text;
+  }
+  let end = maxBytes;
+  while (end > 0 && (bytes[end]! & 0xc0) === 0x80) {
+    end--;
+  }
+  return bytes.toString('utf8', 0, end);
+}
+
+/**
+ * The last maxBytes of text in UTF-8, without splitting a character
+ */
+function tailBytes(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= maxBytes) {
+    return text;
+  }
+  let start = bytes.length - maxBytes;
+  while (start < bytes.length && (bytes[start]! & 0xc0) === 0x80) {
+    start++;
+  }
+  return bytes.toString('utf8', start);
+}
+
+/**
+ * Capture stdout and stderr. Without maxBytes everything stays in memory.
+ * Once the two together pass maxBytes, a stream holding more than half of
+ * it is spilled to a temp file, and its text() is a head and tail sized to
+ * what the other stream leaves, so both fit in maxBytes between them.
+ */
+export function createCaptures(maxBytes: number | undefined): OutputCaptures {
+  const limit = maxBytes !== undefined && maxBytes > 0 ? maxBytes : Infinity;
+  // Bytes kept at each end of a spilled stream; the most text() can return
+  const keep = Math.floor(limit / 2);
+  const states: StreamState[] = (['stdout', 'stderr'] as const).map((stream) => ({
+    stream,
+    buffer: '',
+    totalBytes: 0,
+    totalLines: 0,
+    head: '',
+    tail: '',
+    file: null,
+  }));
+  let spill: { id: string; dir: string } | null = null;
+
+  const spillStream = (state: StreamState) => {
+    if (!spill) {
+      const id = randomBytes(6).toString('hex');
+      spill = { id, dir: path.join(OUTPUT_ROOT, id) };
+      fs.mkdirSync(spill.dir, { recursive: true });
+      liveSpills.add(spill.id);
+      pruneSpills();
+    }
+    state.file = fs.createWriteStream(path.join(spill.dir, `${state.stream}.log`));
+    state.file.on('error', () => {});
+    state.file.write(state.buffer);
+    state.head = headBytes(state.buffer, keep);
+    state.tail = tailBytes(state.buffer, keep);
+    state.buffer = '';
+  };
+
+  const append = (state: StreamState, data: string) => {
+    state.totalBytes += Buffer.byteLength(data, 'utf8');
+    state.totalLines += countLines(data);
+
+    if (state.file) {
+      state.file.write(data);
+      state.tail = tailBytes(state.tail + data, keep);
+      return;
+    }
+
+    state.buffer += data;
+    if (states.reduce((sum, s) => sum + s.totalBytes, 0) > limit) {
+      for (const s of states) {
+        if (!s.file && s.totalBytes > limit / 2) {
+          spillStream(s);
+        }
+      }
+    }
+  };
+
+  const text = (state: StreamState) => {
+    if (!state.file) {
+      return state.buffer;
+    }
+    // Streams still in memory are returned whole; spilled ones share the rest
+    const spilled = states.filter((s) => s.file);
+    const inMemory = states.filter((s) => !s.file).reduce((sum, s) => sum + s.totalBytes, 0);
+    const share = Math.floor((limit - inMemory) / spilled.length / 2);
+    const head = headBytes(state.head, share);
+    const tail = tailBytes(state.tail, share);
+    const omitted = state.totalBytes - Buffer.byteLength(head, 'utf8') - Buffer.byteLength(tail, 'utf8');
+    return `${head}\n\n... [${omitted} bytes of ${state.stream} omitted; page or grep it with shell_output, output_id ${spill!.id}] ...\n\n${tail}`;
+  };
+
+  const toCapture = (state: StreamState): OutputCapture => ({
+    append: (data) => append(state, data),
+    text: () => text(state),
+    get totalBytes() {
+      return state.totalBytes;
+    },
+    get totalLines() {
+      return state.totalLines;
+    },
+    get spilled() {
+      return state.file !== null;
+    },
+  });
+
+  return {
+    stdout: toCapture(states[0]!),
+    stderr: toCapture(states[1]!),
+    get outputId() {
+      return spill?.id ?? null;
+    },
+    async close() {
+      await Promise.all(states.map((state) => {
+        const file = state.file;
+        return file ? new Promise<void>((resolve) => file.end(() => resolve())) : undefined;
+      }));
+      if (spill) {
+        liveSpills.delete(spill.id);
+      }
+    },
+  };
+}
+
+export interface OutputPage {
+  start_line: number;
+  end_line: number;
+  total_lines: number;
+  text: string;
+}
+
+export interface OutputMatch {
+  line: number;
+  text: string;
+}
+
+/**
+ * Stream a file line by line
+ */
+export async function* readLines(file: string): AsyncGenerator<string> {
+  const handle = await fsp.open(file, 'r');
+  try {
+    let pending = '';
+    for await (const chunk of handle.createReadStream({ encoding: 'utf8' })) {
+      pending += chunk as string;
+      const lines = pending.split('\n');
+      pending = lines.pop()!;
+      yield* lines;
+    }
+    if (pending) {
+      yield pending;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Lines startLine..endLine (1-based, inclusive), stopping early at maxBytes
+ */
+export async function readOutputPage(
+  file: string,
+  startLine: number,
+  endLine: number,
+  maxBytes: number
+): Promise<OutputPage> {
+  const lines: string[] = [];
+  let bytes = 0;
+  let lineNo = 0;
+  let lastLine = startLine - 1;
+  let full = false;
+
+  for await (const line of readLines(file)) {
+    lineNo++;
+    if (full || lineNo < startLine || lineNo > endLine) continue;
+
+    bytes += Buffer.byteLength(line, 'utf8') + 1;
+    if (bytes > maxBytes && lines.length > 0) {
+      full = true;
+      continue;
+    }
+    // A single minified line can be bigger than the whole page
+    lines.push(line.length > maxBytes ? `${line.slice(0, maxBytes)}...` : line);
+    lastLine = lineNo;
+  }
+
+  return { start_line: startLine, end_line: lastLine, total_lines: lineNo, text: lines.join('\n') };
+}
+
+/**
+ * Lines matching a pattern, up to maxMatches (total_matches counts all of them)
+ */
+export async function grepOutput(
+  file: string,
+  regex: RegExp,
+  maxMatches: number
+): Promise<{ matches: OutputMatch[]; total_matches: number; total_lines: number }> {
+  const matches: OutputMatch[] = [];
+  let total = 0;
+  let lineNo = 0;
+
+  for await (const line of readLines(file)) {
+    lineNo++;
+    if (regex.test(line)) {
+      total++;
+      if (matches.length < maxMatches) {
+        matches.push({ line: lineNo, text: line });
+      }
+    }
+  }
+
+  return { matches, total_matches: total, total_lines: lineNo };
+}
@@ -5,6 +5,9 @@
 
 import * as path from 'path';
 import * as os from 'os';
+import * as fs from 'fs/promises';
+import { createError, TonMCPError } from './errors.js';
+import { getConfig } from '../config.js';
 
 /**
  * Normalize a path for Windows:
@@ -36,6 +39,90 @@ export function normalizePath(inputPath: string, cwd?: string): string {
   return result;
 }
 
+// Same limit Linux applies before failing with ELOOP
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Resolve symlinks and junctions for a path that may not exist yet.
+ * The parent is resolved first; a leaf that is a dangling symlink is
+ * followed to wherever creating the path would actually put the file.
+ */
+export async function realPathLenient(inputPath: string, depth = 0): Promise<string> {
+  try {
+    return await fs.realpath(inputPath);
+  } catch {
+    // Missing, or a symlink to something missing
+  }
+
+  const parent = path.dirname(inputPath);
+  if (parent === inputPath) {
+    return inputPath;
+  }
+
+  const realParent = await realPathLenient(parent, depth);
+  const candidate = path.join(realParent, path.basename(inputPath));
+
+  let link: string;
+  try {
+    if (!(await fs.lstat(candidate)).isSymbolicLink()) {
+      return candidate;
+    }
+    link = await fs.readlink(candidate);
+  } catch {
+    return candidate;
+  }
+
+  // A symlink loop can't be opened, so the link itself is as far as it goes
+  if (depth >= MAX_SYMLINK_DEPTH) {
+    return candidate;
+  }
+  return realPathLenient(path.resolve(realParent, link), depth + 1);
+}
+
+/**
+ * Check whether target is root itself or lies beneath it
+ */
+function isWithinRoot(root: string, target: string): boolean {
+  const caseInsensitive = process.platform === 'win32';
+  const rel = path.relative(
+    caseInsensitive ? root.toLowerCase() : root,
+    caseInsensitive ? target.toLowerCase() : target
+  );
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + path.sep) && !path.isAbsolute(rel));
+}
+
+/**
+ * Normalize a path and enforce the allowed_roots sandbox.
+ * The check runs against the real path so symlinks can't be used to escape,
+ * and that real path is what's returned for the caller to open.
+ * With no allowed_roots configured every path is allowed.
+ */
+export async function resolveAllowedPath(
+  inputPath: string,
+  cwd?: string
+): Promise<string | TonMCPError> {
+  const normalized = normalizePath(inputPath, cwd);
+  const roots = getConfig('allowed_roots');
+
+  if (!roots || roots.length === 0) {
+    return normalized;
+  }
+
+  const realTarget = await realPathLenient(normalized);
+  for (const root of roots) {
+    const realRoot = await realPathLenient(normalizePath(root));
+    if (isWithinRoot(realRoot, realTarget)) {
+      return realTarget;
+    }
+  }
+
+  return createError('ACCESS_DENIED_OUTSIDE_ROOT', `Path is outside the allowed roots: ${normalized}`, {
+    path: normalized,
+    resolved: realTarget,
+    allowed_roots: roots,
+  });
+}
+
 /**
  * Get user home directory
  */
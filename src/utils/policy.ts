@@ -0,0 +1,207 @@
+/**
+ * TonMCP Command Policy
+ * Allow/deny rules evaluated before shell_exec and process_interactive spawn anything
+ */
+
+import * as path from 'path';
+import { createError, TonMCPError } from './errors.js';
+import { getConfig } from '../config.js';
+
+export type PolicyRule = 'blocked_executable' | 'deny' | 'allow' | 'require_confirmation' | 'invalid_pattern';
+
+export interface PolicyCheckOptions {
+  confirmed?: boolean;
+}
+
+// Prefixes that run the command after them, with those of their options that take a value.
+// Blocking one of these blocks it; otherwise the command it runs is checked.
+const WRAPPER_COMMANDS = new Map<string, string[]>([
+  ['sudo', ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U']],
+  ['env', ['-u', '-C', '-S']],
+  ['xargs', ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s']],
+  ['command', []],
+  ['builtin', []],
+  ['nice', ['-n']],
+  ['timeout', ['-s', '-k']],
+  ['nohup', []],
+  ['time', []],
+  ['exec', ['-a']],
+  ['start', []],
+  ['call', []],
+  ['&', []],
+  ['.', []],
+]);
+
+// timeout's duration, which comes before the command
+const DURATION = /^\d+(\.\d+)?[smhd]?$/;
+
+const POSIX_SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+// How deep sh -c "bash -c '...'" is followed
+const MAX_SCRIPT_DEPTH = 3;
+
+const EXECUTABLE_EXTENSIONS = /\.(exe|cmd|bat|com|ps1)$/i;
+
+function normalizeExecutable(name: string): string {
+  // Stray quotes and brackets are left where a quoted script or $(...) was split
+  const base = name.replace(/^["']|["')}]+$/g, '').split(/[\\/]/).pop() || '';
+  return base.replace(EXECUTABLE_EXTENSIONS, '').toLowerCase();
+}
+
+function unquote(word: string): string {
+  return /^(["']).*\1$/s.test(word) ? word.slice(1, -1) : word;
+}
+
+/**
+ * The command line a shell or eval is given to run, if any:
+ * sh/bash -c script, cmd /c ..., pwsh -Command ..., eval ...
+ */
+function scriptArgument(executable: string, args: string[]): string | null {
+  if (POSIX_SHELLS.has(executable)) {
+    // -c, or combined flags such as -lc; the script is the next word alone
+    const flag = args.findIndex((arg) => /^-[a-z]*c[a-z]*$/i.test(arg));
+    return flag !== -1 && flag + 1 < args.length ? unquote(args[flag + 1]!) : null;
+  }
+
+  // Otherwise the rest of the line is the script
+  let start: number;
+  if (executable === 'eval') {
+    start = 0;
+  } else if (executable === 'cmd') {
+    start = args.findIndex((arg) => /^\/[ck]$/i.test(arg)) + 1;
+  } else if (executable === 'pwsh' || executable === 'powershell') {
+    start = args.findIndex((arg) => /^-c(ommand)?$/i.test(arg)) + 1;
+  } else {
+    return null;
+  }
+  // Without the flag start is 0, which only eval means
+  if ((start === 0 && executable !== 'eval') || start >= args.length) {
+    return null;
+  }
+  return args.slice(start).map(unquote).join(' ');
+}
+
+/**
+ * Best-effort list of executables a command line invokes: the first word of
+ * every pipeline/sequence segment, looking through wrappers such as sudo, env
+ * and xargs and into scripts given to sh -c, cmd /c, pwsh -Command and eval
+ */
+export function extractExecutables(command: string, depth = 0): string[] {
+  const executables: string[] = [];
+
+  // A lone & separates commands, but not inside redirections like 2>&1 or &>
+  for (const segment of command.split(/&&|\|\||(?<![<>])&(?!>)|[;|\n]|\$\(|`/)) {
+    const words = segment.trim().replace(/^[({]+\s*/, '').match(/"[^"]*"|'[^']*'|\S+/g) || [];
+
+    let i = 0;
+    // Skip VAR=value assignments, and wrappers with their options
+    while (i < words.length) {
+      if (/^\w+=/.test(words[i]!)) {
+        i++;
+        continue;
+      }
+      const wrapper = normalizeExecutable(words[i]!);
+      const valueOptions = WRAPPER_COMMANDS.get(wrapper);
+      if (!valueOptions) break;
+      executables.push(wrapper);
+      i++;
+      while (i < words.length && (words[i]!.startsWith('-') || DURATION.test(words[i]!))) {
+        i += valueOptions.includes(words[i]!) ? 2 : 1;
+      }
+    }
+
+    const word = words[i];
+    if (!word) continue;
+    const name = normalizeExecutable(word);
+    if (!name) continue;
+    executables.push(name);
+
+    const script = depth < MAX_SCRIPT_DEPTH ? scriptArgument(name, words.slice(i + 1)) : null;
+    if (script) {
+      executables.push(...extractExecutables(script, depth + 1));
+    }
+  }
+
+  return executables;
+}
+
+function policyDenied(rule: PolicyRule, message: string, command: string, pattern?: string): TonMCPError {
+  return createError('POLICY_DENIED', message, {
+    rule,
+    ...(pattern !== undefined && { pattern }),
+    command,
+  });
+}
+
+/**
+ * Find the first pattern in a list that matches the command.
+ * Returns an error for invalid regexes so a typo in config fails closed.
+ */
+function firstMatch(patterns: string[], command: string): string | TonMCPError | null {
+  for (const pattern of patterns) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      return policyDenied('invalid_pattern', `Invalid command policy pattern: ${pattern}`, command, pattern);
+    }
+    if (regex.test(command)) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate the configured command_policy.
+ * Order: blocked executables, deny, allow (if any allow rules exist),
+ * then require_confirmation. Returns null when the command may run.
+ */
+export function checkCommandPolicy(
+  command: string,
+  options: PolicyCheckOptions = {}
+): TonMCPError | null {
+  const policy = getConfig('command_policy') ?? {};
+
+  const blocked = new Set((policy.blocked_executables ?? []).map(normalizeExecutable));
+  if (blocked.size > 0) {
+    for (const executable of extractExecutables(command)) {
+      if (blocked.has(executable)) {
+        return policyDenied('blocked_executable',
+          `Executable '${executable}' is blocked by command policy`, command, executable);
+      }
+    }
+  }
+
+  const denied = firstMatch(policy.deny ?? [], command);
+  if (denied !== null) {
+    return typeof denied === 'string'
+      ? policyDenied('deny', `Command matches deny rule: ${denied}`, command, denied)
+      : denied;
+  }
+
+  const allowPatterns = policy.allow ?? [];
+  if (allowPatterns.length > 0) {
+    const allowed = firstMatch(allowPatterns, command);
+    if (allowed === null) {
+      return policyDenied('allow', 'Command does not match any allow rule', command);
+    }
+    if (typeof allowed !== 'string') {
+      return allowed;
+    }
+  }
+
+  const confirmation = firstMatch(policy.require_confirmation ?? [], command);
+  if (confirmation !== null) {
+    if (typeof confirmation !== 'string') {
+      return confirmation;
+    }
+    if (!options.confirmed) {
+      return policyDenied('require_confirmation',
+        `Command requires confirmation (matches ${confirmation}). ` +
+        'Ask the user, then re-run with confirm: true.', command, confirmation);
+    }
+  }
+
+  return null;
+}
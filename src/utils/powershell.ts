@@ -4,29 +4,132 @@
  */
 
 import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import { createError, TonMCPError } from './errors.js';
+import { killTree, trackProcessGroup } from './process-tree.js';
+import { createCaptures } from './output.js';
+import { consoleCodePage, createOutputDecoder, OutputEncoding } from './console-encoding.js';
 
-export type ShellType = 'pwsh' | 'powershell' | 'cmd';
+export const SHELL_TYPES = ['pwsh', 'powershell', 'cmd', 'bash', 'sh', 'zsh'] as const;
+
+export type ShellType = typeof SHELL_TYPES[number];
 
 export interface ExecuteResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   durationMs: number;
+  /** Set when output went past maxOutputBytes and was spilled to a temp file */
+  spill?: SpillInfo;
+}
+
+export interface SpillInfo {
+  outputId: string;
+  stdoutBytes: number;
+  stdoutLines: number;
+  stderrBytes: number;
+  stderrLines: number;
 }
 
 export interface ExecuteOptions {
   shell?: ShellType;
   cwd?: string;
   timeoutMs?: number;
+  /** Variables to set; merged into the server's environment unless envMode is 'replace' */
+  env?: Record<string, string>;
+  envMode?: 'merge' | 'replace';
+  /** Variables to remove after env has been applied */
+  unsetEnv?: string[];
+  /** Written to the command's stdin, which is then closed */
+  stdin?: string;
+  /** Cap on stdout and stderr together held in memory and returned; the rest is spilled to a temp file */
+  maxOutputBytes?: number;
+  /** How output is decoded (default: auto). On Windows the shell's console is switched to it too. */
+  outputEncoding?: OutputEncoding;
 }
 
 const DEFAULT_TIMEOUT_MS = 30000;
 
+const POSIX_SHELLS: readonly ShellType[] = ['bash', 'sh', 'zsh'];
+
+// Kept in a replaced environment so the shell can still find programs and start up
+const ESSENTIAL_ENV = ['PATH', 'HOME', 'USERPROFILE', 'SystemRoot', 'windir', 'ComSpec', 'PATHEXT', 'TEMP', 'TMP'];
+
+const executableCache = new Map<string, string | null>();
+let detectedShell: ShellType | null = null;
+
+/**
+ * Locate an executable on PATH (honours PATHEXT on Windows)
+ */
+export function findExecutable(name: string): string | null {
+  const cached = executableCache.get(name);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';')]
+    : [''];
+  const dirs = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+
+  let found: string | null = null;
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      const candidate = path.join(dir, name + ext);
+      try {
+        if (fs.statSync(candidate).isFile()) {
+          found = candidate;
+          break;
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+    if (found) break;
+  }
+
+  executableCache.set(name, found);
+  return found;
+}
+
+/**
+ * Pick a sensible default shell for the current platform:
+ * pwsh/powershell on Windows, the user's $SHELL (or bash/sh) elsewhere
+ */
+export function detectDefaultShell(): ShellType {
+  if (detectedShell) {
+    return detectedShell;
+  }
+
+  if (process.platform === 'win32') {
+    detectedShell = findExecutable('pwsh') ? 'pwsh' : 'powershell';
+  } else {
+    const userShell = path.basename(process.env.SHELL || '') as ShellType;
+    if (POSIX_SHELLS.includes(userShell) && findExecutable(userShell)) {
+      detectedShell = userShell;
+    } else {
+      detectedShell = findExecutable('bash') ? 'bash' : 'sh';
+    }
+  }
+
+  return detectedShell;
+}
+
+/**
+ * Resolve a configured shell, expanding 'auto' to the platform default
+ */
+export function resolveShell(shell: ShellType | 'auto' | undefined): ShellType {
+  if (!shell || shell === 'auto') {
+    return detectDefaultShell();
+  }
+  return shell;
+}
+
 /**
  * Get the shell executable path
  */
-function getShellExecutable(shell: ShellType): string {
+export function getShellExecutable(shell: ShellType): string {
   switch (shell) {
     case 'pwsh':
       return 'pwsh';
@@ -34,110 +137,217 @@ function getShellExecutable(shell: ShellType): string {
       return 'powershell';
     case 'cmd':
       return 'cmd';
+    case 'bash':
+      return 'bash';
+    case 'sh':
+      return 'sh';
+    case 'zsh':
+      return 'zsh';
     default:
       return 'pwsh';
   }
 }
 
 /**
- * Build command arguments for the shell
+ * Build command arguments for the shell.
+ * On Windows, cmd and PowerShell write in the console code page (OEM, e.g. 866)
+ * unless told otherwise, so the command is prefixed to switch it to the encoding
+ * the output will be decoded with.
  */
-function buildArgs(shell: ShellType, command: string): string[] {
+function buildArgs(shell: ShellType, command: string, encoding: OutputEncoding): string[] {
+  const codePage = process.platform === 'win32' ? consoleCodePage(encoding) : null;
+
   switch (shell) {
     case 'pwsh':
-    case 'powershell':
+    case 'powershell': {
+      // UTF8Encoding without a byte order mark; [Text.Encoding]::UTF8 writes one
+      const consoleEncoding = codePage === 65001
+        ? 'New-Object System.Text.UTF8Encoding $false'
+        : `[Text.Encoding]::GetEncoding(${codePage})`;
       return [
         '-NoProfile',
         '-NonInteractive',
         '-OutputFormat', 'Text',
-        '-Command', command,
+        '-Command', codePage === null ? command : `[Console]::OutputEncoding = ${consoleEncoding}; ${command}`,
       ];
+    }
     case 'cmd':
-      return ['/c', command];
+      if (codePage === null) {
+        return ['/c', command];
+      }
+      // Built-in commands write UTF-16LE with /u; there's no UTF-16 console code page
+      return codePage === 1200 ? ['/u', '/c', command] : ['/c', `chcp ${codePage}>nul & ${command}`];
+    case 'bash':
+    case 'sh':
+    case 'zsh':
+      return ['-c', command];
     default:
       return ['-NoProfile', '-NonInteractive', '-Command', command];
   }
 }
 
 /**
- * Execute a shell command with timeout and proper output capture
+ * Environment for a command. Windows variable names are case-insensitive,
+ * so setting or unsetting one there replaces every spelling of it.
  */
-export function execute(
-  command: string,
-  options: ExecuteOptions = {}
-): Promise<ExecuteResult | TonMCPError> {
+function buildEnv(options: ExecuteOptions): NodeJS.ProcessEnv {
+  const caseInsensitive = process.platform === 'win32';
+  const sameName = (a: string, b: string) => (caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b);
+
+  const env: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (options.envMode !== 'replace' || ESSENTIAL_ENV.some((name) => sameName(name, key))) {
+      env[key] = value;
+    }
+  }
+
+  const remove = (name: string) => {
+    for (const key of Object.keys(env)) {
+      if (sameName(key, name)) delete env[key];
+    }
+  };
+
+  for (const [key, value] of Object.entries(options.env ?? {})) {
+    remove(key);
+    env[key] = value;
+  }
+  for (const name of options.unsetEnv ?? []) {
+    remove(name);
+  }
+
+  return env;
+}
+
+/**
+ * A running command whose output is captured as it arrives
+ */
+export interface Execution {
+  readonly pid: number | undefined;
+  /** Output captured so far */
+  readonly stdout: string;
+  readonly stderr: string;
+  /** Set once either stream has been spilled to a temp file */
+  readonly outputId: string | null;
+  /** Settles once the process exits, times out, is cancelled or fails to start */
+  readonly result: Promise<ExecuteResult | TonMCPError>;
+  /** Stop the process early; result settles with a CANCELLED error */
+  cancel(): void;
+}
+
+/**
+ * Start a shell command with proper output capture.
+ * A timeoutMs of 0 lets it run until it exits or is cancelled.
+ */
+export function startExecution(command: string, options: ExecuteOptions = {}): Execution {
   const shell = options.shell || 'powershell';
   const cwd = options.cwd || process.cwd();
-  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
   const executable = getShellExecutable(shell);
-  const args = buildArgs(shell, command);
-
-  return new Promise((resolve) => {
-    const startTime = Date.now();
-    let stdout = '';
-    let stderr = '';
-    let killed = false;
-
-    const child = spawn(executable, args, {
-      cwd,
-      env: process.env,
-      windowsHide: true,
-      // Use UTF-8 encoding
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
+  const args = buildArgs(shell, command, options.outputEncoding ?? 'auto');
+
+  const startTime = Date.now();
+  const captures = createCaptures(options.maxOutputBytes);
+  const { stdout, stderr } = captures;
+  const spillInfo = (): SpillInfo | undefined => (captures.outputId ? {
+    outputId: captures.outputId,
+    stdoutBytes: stdout.totalBytes,
+    stdoutLines: stdout.totalLines,
+    stderrBytes: stderr.totalBytes,
+    stderrLines: stderr.totalLines,
+  } : undefined);
+  let stopReason: 'timeout' | 'cancelled' | null = null;
+  // PIDs taken down with the shell when it is stopped early
+  let stopping: Promise<number[]> = Promise.resolve([]);
+
+  const child = spawn(executable, args, {
+    cwd,
+    env: options.env || options.envMode || options.unsetEnv ? buildEnv(options) : process.env,
+    windowsHide: true,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    // Own process group on POSIX so the whole tree can be terminated
+    detached: process.platform !== 'win32',
+  });
+  trackProcessGroup(child);
 
+  // Commands that read stdin get the given input, or EOF rather than waiting forever.
+  // A command that exits without reading it all would otherwise raise EPIPE.
+  child.stdin.on('error', () => {});
+  child.stdin.end(options.stdin ?? '');
+
+  const stop = (reason: 'timeout' | 'cancelled') => {
+    if (stopReason || child.pid === undefined) return;
+    stopReason = reason;
+    // Grandchildren would otherwise keep running and hold the output pipes open
+    stopping = killTree(child.pid);
+  };
+
+  const result = new Promise<ExecuteResult | TonMCPError>((resolve) => {
     // Set up timeout
-    const timeout = setTimeout(() => {
-      killed = true;
-      child.kill('SIGTERM');
-      // Force kill after 1 second if still running
-      setTimeout(() => {
-        if (!child.killed) {
-          child.kill('SIGKILL');
-        }
-      }, 1000);
-    }, timeoutMs);
+    const timeout = timeoutMs > 0 ? setTimeout(() => stop('timeout'), timeoutMs) : undefined;
 
     // Collect stdout
-    child.stdout.setEncoding('utf8');
-    child.stdout.on('data', (data: string) => {
-      stdout += data;
+    const stdoutDecoder = createOutputDecoder(options.outputEncoding ?? 'auto');
+    child.stdout.on('data', (data: Buffer) => {
+      stdout.append(stdoutDecoder.write(data));
     });
 
     // Collect stderr
-    child.stderr.setEncoding('utf8');
-    child.stderr.on('data', (data: string) => {
-      stderr += data;
+    const stderrDecoder = createOutputDecoder(options.outputEncoding ?? 'auto');
+    child.stderr.on('data', (data: Buffer) => {
+      stderr.append(stderrDecoder.write(data));
     });
 
     // Handle process exit
-    child.on('close', (code) => {
+    child.on('close', async (code) => {
       clearTimeout(timeout);
       const durationMs = Date.now() - startTime;
+      stdout.append(stdoutDecoder.end());
+      stderr.append(stderrDecoder.end());
+      // Spill files must be complete before anyone is told to read them
+      await captures.close();
+      const spill = spillInfo();
 
-      if (killed) {
+      if (stopReason === 'timeout') {
+        const terminatedPids = await stopping;
         resolve(
           createError('TIMEOUT', `Command timed out after ${timeoutMs}ms`, {
             command,
-            partialStdout: stdout.slice(0, 1000),
-            partialStderr: stderr.slice(0, 1000),
+            partialStdout: stdout.text().slice(0, 1000),
+            partialStderr: stderr.text().slice(0, 1000),
+            terminated_pids: terminatedPids,
+            ...(spill && { output_id: spill.outputId }),
+          })
+        );
+        return;
+      }
+
+      if (stopReason === 'cancelled') {
+        const terminatedPids = await stopping;
+        resolve(
+          createError('CANCELLED', 'Command was cancelled', {
+            command,
+            durationMs,
+            terminated_pids: terminatedPids,
+            ...(spill && { output_id: spill.outputId }),
           })
         );
         return;
       }
 
       resolve({
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
+        stdout: stdout.text().trim(),
+        stderr: stderr.text().trim(),
         exitCode: code ?? 1,
         durationMs,
+        ...(spill && { spill }),
       });
     });
 
     // Handle spawn errors
     child.on('error', (err) => {
       clearTimeout(timeout);
+      void captures.close();
       resolve(
         createError('COMMAND_FAILED', `Failed to execute command: ${err.message}`, {
           command,
@@ -146,6 +356,73 @@ export function execute(
       );
     });
   });
+
+  return {
+    pid: child.pid,
+    get stdout() {
+      return stdout.text();
+    },
+    get stderr() {
+      return stderr.text();
+    },
+    get outputId() {
+      return captures.outputId;
+    },
+    result,
+    cancel: () => stop('cancelled'),
+  };
+}
+
+/**
+ * Execute a shell command with timeout and proper output capture.
+ * A timeoutMs of 0 means the default timeout, since nothing could cancel it.
+ */
+export function execute(
+  command: string,
+  options: ExecuteOptions = {}
+): Promise<ExecuteResult | TonMCPError> {
+  return startExecution(command, { ...options, timeoutMs: options.timeoutMs || DEFAULT_TIMEOUT_MS }).result;
+}
+
+export interface JsonOptions {
+  /** ConvertTo-Json depth (default: 10) */
+  depth?: number;
+  /** Properties to keep, passed to Select-Object */
+  select?: string[];
+}
+
+export const MAX_JSON_DEPTH = 100;
+
+function quotePowerShell(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Wrap a PowerShell command so its output objects are written as JSON.
+ * The command runs in a script block, so a multi-statement command is
+ * converted as a whole rather than only its last statement.
+ */
+export function toJsonCommand(command: string, options: JsonOptions = {}): string {
+  const select = options.select?.length
+    ? ` | Select-Object -Property ${options.select.map(quotePowerShell).join(',')}`
+    : '';
+  return `& {\n${command}\n}${select} | ConvertTo-Json -Depth ${options.depth ?? 10} -Compress`;
+}
+
+/**
+ * Parse ConvertTo-Json output; no output at all parses as undefined
+ */
+export function parseJsonOutput<T>(stdout: string): T | undefined | TonMCPError {
+  if (!stdout.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(stdout) as T;
+  } catch {
+    return createError('PARSE_ERROR', 'Failed to parse JSON output', {
+      output: stdout.slice(0, 500),
+    });
+  }
 }
 
 /**
@@ -154,12 +431,9 @@ export function execute(
  */
 export async function executeJson<T>(
   command: string,
-  options: ExecuteOptions = {}
+  options: ExecuteOptions & JsonOptions = {}
 ): Promise<T | TonMCPError> {
-  // Wrap command to convert output to JSON
-  const jsonCommand = `${command} | ConvertTo-Json -Depth 10 -Compress`;
-  
-  const result = await execute(jsonCommand, options);
+  const result = await execute(toJsonCommand(command, options), options);
   
   if ('error' in result) {
     return result;
@@ -172,17 +446,9 @@ export async function executeJson<T>(
     });
   }
 
-  try {
-    // Handle empty output
-    if (!result.stdout.trim()) {
-      return [] as unknown as T;
-    }
-    return JSON.parse(result.stdout) as T;
-  } catch {
-    return createError('PARSE_ERROR', 'Failed to parse JSON output', {
-      output: result.stdout.slice(0, 500),
-    });
-  }
+  // Handle empty output
+  const parsed = parseJsonOutput<T>(result.stdout);
+  return parsed === undefined ? [] as unknown as T : parsed;
 }
 
 /**
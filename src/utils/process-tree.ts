@@ -0,0 +1,228 @@
+/**
+ * TonMCP Process Trees
+ * Terminate a process together with everything it started
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { readFileSync } from 'fs';
+import { ChildProcess, execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const IS_WINDOWS = process.platform === 'win32';
+const DEFAULT_GRACE_MS = 1000;
+const POLL_MS = 50;
+
+// Process groups of detached children that may still have members running
+const ownedGroups = new Set<number>();
+// How often a group whose leader has exited is checked for members left
+const GROUP_CHECK_MS = 5000;
+let exitHandlerInstalled = false;
+
+export interface KillTreeOptions {
+  /** First signal sent on POSIX; survivors get SIGKILL after graceMs */
+  signal?: NodeJS.Signals;
+  graceMs?: number;
+}
+
+/**
+ * Kill the tracked process groups when the server exits, including on
+ * SIGINT, SIGTERM and SIGHUP. Called once at startup.
+ */
+export function installExitHandler(): void {
+  if (exitHandlerInstalled) return;
+  exitHandlerInstalled = true;
+
+  // Only synchronous work is possible here, so there is no grace period
+  process.on('exit', () => {
+    for (const pgid of ownedGroups) {
+      sendSignal(-pgid, 'SIGKILL');
+    }
+  });
+  // These would otherwise end the server without an 'exit' event
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.once(signal, () => process.exit(128 + os.constants.signals[signal]));
+  }
+}
+
+function groupExists(pgid: number): boolean {
+  try {
+    process.kill(-pgid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Kill a detached child's process group if the server exits before it does.
+ * Detached groups don't get the hang-up a closing terminal would send, so
+ * they would outlive the server; a SIGKILL of the server itself still leaves them.
+ * POSIX only: Windows children aren't detached.
+ */
+export function trackProcessGroup(child: ChildProcess): void {
+  const pgid = child.pid;
+  if (IS_WINDOWS || pgid === undefined) return;
+
+  ownedGroups.add(pgid);
+  // Background commands can keep the group alive after its leader exits.
+  // Forget it once they are gone too, before its id can be reused.
+  const forgetWhenEmpty = () => {
+    if (groupExists(pgid)) {
+      setTimeout(forgetWhenEmpty, GROUP_CHECK_MS).unref();
+    } else {
+      ownedGroups.delete(pgid);
+    }
+  };
+  child.once('exit', forgetWhenEmpty);
+}
+
+/**
+ * Map every running process to its parent
+ */
+async function readParentPids(): Promise<Map<number, number>> {
+  const parents = new Map<number, number>();
+
+  if (IS_WINDOWS) {
+    const { stdout } = await execFileAsync('powershell', [
+      '-NoProfile', '-NonInteractive', '-Command',
+      'Get-CimInstance -ClassName Win32_Process | ForEach-Object { "$($_.ProcessId) $($_.ParentProcessId)" }',
+    ], { windowsHide: true, maxBuffer: 16 * 1024 * 1024 });
+    for (const line of stdout.split(/\r?\n/)) {
+      const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+      if (pid && ppid !== undefined) parents.set(pid, ppid);
+    }
+    return parents;
+  }
+
+  try {
+    const entries = (await fs.readdir('/proc')).filter((e) => /^\d+$/.test(e));
+    await Promise.all(entries.map(async (entry) => {
+      try {
+        const raw = await fs.readFile(`/proc/${entry}/stat`, 'utf8');
+        // The name may contain spaces or parentheses; ppid follows state after the last ')'
+        const fields = raw.slice(raw.lastIndexOf(')') + 2).split(' ');
+        parents.set(Number(entry), Number(fields[1]));
+      } catch {
+        // Process exited between readdir and read
+      }
+    }));
+    return parents;
+  } catch {
+    // No /proc (macOS, BSD)
+  }
+
+  const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid='], { maxBuffer: 16 * 1024 * 1024 });
+  for (const line of stdout.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+    if (pid && ppid !== undefined) parents.set(pid, ppid);
+  }
+  return parents;
+}
+
+/**
+ * PIDs of all descendants of a process, parents before children
+ */
+export async function listDescendants(pid: number): Promise<number[]> {
+  let parents: Map<number, number>;
+  try {
+    parents = await readParentPids();
+  } catch {
+    return [];
+  }
+
+  const children = new Map<number, number[]>();
+  for (const [child, parent] of parents) {
+    if (child === parent) continue;
+    const list = children.get(parent) ?? [];
+    list.push(child);
+    children.set(parent, list);
+  }
+
+  const result: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      if (!result.includes(child)) {
+        result.push(child);
+        queue.push(child);
+      }
+    }
+  }
+  return result;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch (err) {
+    // EPERM: exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+
+  // A zombie has exited; it only waits for a parent (possibly a non-reaping init) to collect it
+  try {
+    const raw = readFileSync(`/proc/${pid}/stat`, 'utf8');
+    return raw[raw.lastIndexOf(')') + 2] !== 'Z';
+  } catch {
+    return true;
+  }
+}
+
+function sendSignal(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(pid, signal);
+  } catch {
+    // Already gone
+  }
+}
+
+async function waitForExit(pids: number[], timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (pids.some(isAlive) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+  }
+}
+
+/**
+ * Terminate a process and all of its descendants.
+ * POSIX: signal the process group the root leads (children we spawn are
+ * detached into their own group) plus every descendant found, since some
+ * start new groups, then SIGKILL whatever outlives the grace period.
+ * Windows: taskkill /T /F, which has no graceful equivalent for console programs.
+ * Returns the PIDs that were running and have now exited.
+ */
+export async function killTree(pid: number, options: KillTreeOptions = {}): Promise<number[]> {
+  const tree = [pid, ...(await listDescendants(pid))].filter(isAlive);
+
+  if (IS_WINDOWS) {
+    try {
+      await execFileAsync('taskkill', ['/PID', String(pid), '/T', '/F'], { windowsHide: true });
+    } catch {
+      // Non-zero if some processes had already exited
+    }
+    await waitForExit(tree, options.graceMs ?? DEFAULT_GRACE_MS);
+    return tree.filter((p) => !isAlive(p));
+  }
+
+  const signal = options.signal ?? 'SIGTERM';
+  sendSignal(-pid, signal);
+  for (const p of tree) {
+    sendSignal(p, signal);
+  }
+
+  await waitForExit(tree, options.graceMs ?? DEFAULT_GRACE_MS);
+
+  const survivors = tree.filter(isAlive);
+  if (survivors.length > 0) {
+    sendSignal(-pid, 'SIGKILL');
+    for (const p of survivors) {
+      sendSignal(p, 'SIGKILL');
+    }
+    await waitForExit(survivors, DEFAULT_GRACE_MS);
+  }
+
+  return tree.filter((p) => !isAlive(p));
+}
@@ -0,0 +1,149 @@
+/**
+ * TonMCP REPL Adapters
+ * Wrap snippets sent to Python, Node and PowerShell REPLs in sentinel
+ * markers so the output of each evaluation can be told apart
+ */
+
+import { findExecutable } from './powershell.js';
+
+export const REPL_KINDS = ['python', 'node', 'pwsh'] as const;
+
+export type ReplKind = typeof REPL_KINDS[number];
+
+export type EvalStatus = 'ok' | 'error';
+
+export interface ReplAdapter {
+  /** Command that starts the REPL reading snippets from a pipe */
+  command(): string;
+  /**
+   * Single line of input that evaluates the snippet. Between the markers it
+   * prints, stdout carries the snippet's output (plus the value of a trailing
+   * expression) and stderr its error output followed by any exception.
+   */
+  wrap(code: string, token: string): string;
+}
+
+/**
+ * Markers written around an evaluation on both stdout and stderr
+ */
+export function evalMarkers(token: string): { start: string; exception: string; end: RegExp } {
+  return {
+    start: `<<<${token}:start>>>\n`,
+    exception: `\n<<<${token}:exception>>>\n`,
+    end: new RegExp(`\\n<<<${token}:end:(ok|error)>>>\\n`),
+  };
+}
+
+function toBase64(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64');
+}
+
+// Runs in the REPL's __main__ namespace, so definitions persist between evals.
+// A trailing expression is evaluated separately and its repr printed, like the REPL does.
+// Tracebacks leave out the harness's own frame, and for syntax errors the parser's too.
+const PYTHON_HARNESS = [
+  'def __tonmcp_eval(src, tok):',
+  '    import ast, sys, traceback',
+  '    g = sys.modules["__main__"].__dict__',
+  '    sys.stdout.write("<<<%s:start>>>\\n" % tok); sys.stdout.flush()',
+  '    sys.stderr.write("<<<%s:start>>>\\n" % tok); sys.stderr.flush()',
+  '    status = "ok"',
+  '    try:',
+  '        tree = ast.parse(src, "<eval>", "exec")',
+  '        last = None',
+  '        if tree.body and isinstance(tree.body[-1], ast.Expr):',
+  '            last = ast.Expression(tree.body.pop().value)',
+  '        exec(compile(tree, "<eval>", "exec"), g)',
+  '        if last is not None:',
+  '            value = eval(compile(last, "<eval>", "eval"), g)',
+  '            if value is not None:',
+  '                print(repr(value))',
+  '    except (Exception, KeyboardInterrupt):',
+  '        status = "error"',
+  '        sys.stderr.write("\\n<<<%s:exception>>>\\n" % tok)',
+  '        etype, value, tb = sys.exc_info()',
+  '        traceback.print_exception(etype, value, None if issubclass(etype, SyntaxError) else tb.tb_next)',
+  '    sys.stdout.write("\\n<<<%s:end:%s>>>\\n" % (tok, status)); sys.stdout.flush()',
+  '    sys.stderr.write("\\n<<<%s:end:%s>>>\\n" % (tok, status)); sys.stderr.flush()',
+].join('\n');
+
+// Run as a script in the REPL's context, as its own input would be, so top-level
+// let/const/class declarations persist between evals; a returned promise is awaited.
+// The first await lets the REPL print its own "undefined" before the start marker.
+const NODE_HARNESS = `void (async (src, tok) => {
+  await new Promise((resolve) => setImmediate(resolve));
+  const both = (text) => { process.stdout.write(text); process.stderr.write(text); };
+  both('<<<' + tok + ':start>>>\\n');
+  let status = 'ok';
+  try {
+    let value = require('vm').runInThisContext(src, { filename: 'eval', displayErrors: false });
+    if (value && typeof value.then === 'function') value = await value;
+    if (value !== undefined) process.stdout.write(require('util').inspect(value) + '\\n');
+  } catch (err) {
+    status = 'error';
+    // Leave out the harness's own frames
+    const stack = (err && err.stack) || String(err);
+    const own = stack.indexOf('\\n    at Script.runInThisContext');
+    process.stderr.write('\\n<<<' + tok + ':exception>>>\\n' + (own >= 0 ? stack.slice(0, own) : stack) + '\\n');
+  }
+  both('\\n<<<' + tok + ':end:' + status + '>>>\\n');
+})`;
+
+// Dot-sourced so variables and functions persist between evals.
+// Terminating errors are the exception; non-terminating ones go to stderr.
+const PWSH_HARNESS = `. {
+  param($src, $tok)
+  [Console]::Out.Write("<<<$($tok):start>>>\`n"); [Console]::Error.Write("<<<$($tok):start>>>\`n")
+  $status = 'ok'
+  try {
+    $items = @(. ([scriptblock]::Create($src)) 2>&1)
+    $values = @($items | Where-Object { $_ -isnot [System.Management.Automation.ErrorRecord] })
+    if ($values.Count -gt 0) { [Console]::Out.Write(($values | Out-String)) }
+    $items | Where-Object { $_ -is [System.Management.Automation.ErrorRecord] } | ForEach-Object { [Console]::Error.WriteLine($_.ToString()) }
+  } catch {
+    $status = 'error'
+    [Console]::Error.Write("\`n<<<$($tok):exception>>>\`n" + ($_ | Out-String))
+  }
+  [Console]::Out.Write("\`n<<<$($tok):end:$($status)>>>\`n"); [Console]::Error.Write("\`n<<<$($tok):end:$($status)>>>\`n")
+}`;
+
+const adapters: Record<ReplKind, ReplAdapter> = {
+  python: {
+    command() {
+      const python = findExecutable('python3') ? 'python3' : 'python';
+      // -u: unbuffered, -i: interactive even though stdin is a pipe, -q: no banner
+      return `${python} -u -i -q`;
+    },
+    wrap(code, token) {
+      const program = `${PYTHON_HARNESS}\n__tonmcp_eval(__import__("base64").b64decode("${toBase64(code)}").decode("utf-8"), "${token}")\n`;
+      return `exec(__import__("base64").b64decode("${toBase64(program)}").decode("utf-8"))\n`;
+    },
+  },
+  node: {
+    command() {
+      return 'node -i';
+    },
+    wrap(code, token) {
+      const program = `${NODE_HARNESS}(Buffer.from('${toBase64(code)}', 'base64').toString('utf8'), '${token}')`;
+      return `eval(Buffer.from('${toBase64(program)}', 'base64').toString('utf8'))\n`;
+    },
+  },
+  pwsh: {
+    command() {
+      const shell = findExecutable('pwsh') ? 'pwsh' : 'powershell';
+      return `${shell} -NoLogo -NoProfile -NonInteractive -Command -`;
+    },
+    wrap(code, token) {
+      const decode = (text: string) => `([Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${toBase64(text)}')))`;
+      const program = `${PWSH_HARNESS} ${decode(code)} '${token}'`;
+      return `. ([scriptblock]::Create(${decode(program)}))\n`;
+    },
+  },
+};
+
+/**
+ * Get the adapter for a REPL kind
+ */
+export function getReplAdapter(kind: ReplKind): ReplAdapter {
+  return adapters[kind];
+}
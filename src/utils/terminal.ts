@@ -0,0 +1,313 @@
+/**
+ * TonMCP Terminal Processes
+ * Uniform wrapper over piped child processes and pseudo-terminals
+ * for interactive sessions
+ */
+
+import { spawn } from 'child_process';
+import * as os from 'os';
+import { createError, isError, TonMCPError } from './errors.js';
+import { execute } from './powershell.js';
+import { trackProcessGroup } from './process-tree.js';
+
+// PTY sessions have a single merged stream, as a terminal window does
+export type OutputStream = 'stdout' | 'stderr' | 'pty';
+
+export const SESSION_SIGNALS = ['SIGINT', 'SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGQUIT', 'SIGBREAK', 'EOF'] as const;
+
+export type SessionSignal = typeof SESSION_SIGNALS[number];
+
+export interface TerminalProcess {
+  readonly pid: number | undefined;
+  readonly isPty: boolean;
+  write(data: string): Promise<void>;
+  kill(signal?: NodeJS.Signals): void;
+  /** Deliver a signal or control key without necessarily ending the process */
+  signal(signal: SessionSignal): Promise<TonMCPError | null>;
+  resize(cols: number, rows: number): void;
+  onData(listener: (stream: OutputStream, data: string) => void): void;
+  onExit(listener: (code: number | null, signal: NodeJS.Signals | null) => void): void;
+  onError(listener: (err: Error) => void): void;
+}
+
+export interface TerminalOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  cols?: number;
+  rows?: number;
+}
+
+export const DEFAULT_PTY_COLS = 120;
+export const DEFAULT_PTY_ROWS = 30;
+
+// How long after exit to wait for the output pipes to drain
+export const EXIT_DRAIN_MS = 2000;
+
+// Covers CSI, OSC (BEL or ST terminated) and single-character escape sequences
+const ANSI_PATTERN = new RegExp(
+  '[\\u001B\\u009B](?:\\][^\\u0007\\u001B]*(?:\\u0007|\\u001B\\\\)|\\[[0-?]*[ -/]*[@-~]|[@-Z\\\\-_])',
+  'g'
+);
+
+/**
+ * Remove ANSI escape sequences and resolve carriage returns the way a
+ * terminal would display them (a bare \r redraws the line from the start)
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r+\n/g, '\n')
+    .split('\n')
+    .map((line) => line.slice(line.lastIndexOf('\r') + 1))
+    .join('\n');
+}
+
+const IS_WINDOWS = process.platform === 'win32';
+
+// Windows console control events for GenerateConsoleCtrlEvent
+const CTRL_C_EVENT = 0;
+const CTRL_BREAK_EVENT = 1;
+
+/**
+ * Raise Ctrl+C or Ctrl+Break in the console a Windows process is attached to.
+ * Node can't do this itself, so a helper PowerShell detaches from its own console,
+ * attaches to the target's, ignores the event itself and broadcasts it.
+ */
+async function sendConsoleCtrlEvent(pid: number, event: number): Promise<TonMCPError | null> {
+  const script = [
+    `Add-Type -Namespace AuralisConsole -Name Native -MemberDefinition '` +
+      `[DllImport("kernel32.dll")] public static extern bool FreeConsole(); ` +
+      `[DllImport("kernel32.dll")] public static extern bool AttachConsole(uint pid); ` +
+      `[DllImport("kernel32.dll")] public static extern bool SetConsoleCtrlHandler(IntPtr handler, bool add); ` +
+      `[DllImport("kernel32.dll")] public static extern bool GenerateConsoleCtrlEvent(uint ev, uint group);'`,
+    `[AuralisConsole.Native]::FreeConsole() | Out-Null`,
+    `if (-not [AuralisConsole.Native]::AttachConsole(${pid})) { exit 1 }`,
+    `[AuralisConsole.Native]::SetConsoleCtrlHandler([IntPtr]::Zero, $true) | Out-Null`,
+    `if (-not [AuralisConsole.Native]::GenerateConsoleCtrlEvent(${event}, 0)) { exit 2 }`,
+  ].join('; ');
+
+  const result = await execute(script, { shell: 'powershell', timeoutMs: 10000 });
+  if (isError(result)) {
+    return result;
+  }
+  if (result.exitCode !== 0) {
+    return createError('COMMAND_FAILED', `Failed to send console control event to process ${pid}`, {
+      exitCode: result.exitCode,
+      stderr: result.stderr,
+    });
+  }
+  return null;
+}
+
+function unsupportedSignal(signal: SessionSignal, reason: string): TonMCPError {
+  return createError('INVALID_ARGUMENT', `${signal} is not supported ${reason}`);
+}
+
+/**
+ * Spawn a command with piped stdio through the platform shell
+ */
+export function spawnPiped(command: string, options: TerminalOptions): TerminalProcess {
+  // Hand the command line to the shell untouched so its quoting rules apply
+  const child = spawn(command, [], {
+    cwd: options.cwd,
+    env: options.env ?? process.env,
+    shell: true,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    // Own process group on POSIX so signals reach the shell and what it runs
+    detached: !IS_WINDOWS,
+  });
+  trackProcessGroup(child);
+
+  child.stdout?.setEncoding('utf8');
+  child.stderr?.setEncoding('utf8');
+
+  return {
+    pid: child.pid,
+    isPty: false,
+    write: (data) => new Promise((resolve, reject) => {
+      child.stdin?.write(data, (err) => (err ? reject(err) : resolve()));
+    }),
+    kill: (signal) => {
+      child.kill(signal);
+    },
+    signal: async (signal) => {
+      if (signal === 'EOF') {
+        child.stdin?.end();
+        return null;
+      }
+
+      if (IS_WINDOWS) {
+        if (signal === 'SIGINT' || signal === 'SIGBREAK') {
+          return sendConsoleCtrlEvent(child.pid!, signal === 'SIGINT' ? CTRL_C_EVENT : CTRL_BREAK_EVENT);
+        }
+        // Anything else is emulated by Node as termination
+        child.kill(signal);
+        return null;
+      }
+
+      if (signal === 'SIGBREAK') {
+        return unsupportedSignal(signal, 'outside Windows');
+      }
+
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        child.kill(signal);
+      }
+      return null;
+    },
+    resize: () => {
+      throw new Error('Resize is only supported for PTY sessions');
+    },
+    onData: (listener) => {
+      child.stdout?.on('data', (data: string) => listener('stdout', data));
+      child.stderr?.on('data', (data: string) => listener('stderr', data));
+    },
+    onExit: (listener) => {
+      // The status comes from 'exit'; 'close' only says the pipes have drained,
+      // and never comes while a background grandchild holds them open
+      let status: [number | null, NodeJS.Signals | null] | null = null;
+      let reported = false;
+      const report = () => {
+        if (status && !reported) {
+          reported = true;
+          listener(...status);
+        }
+      };
+      child.on('exit', (code, signal) => {
+        status = [code, signal];
+        setTimeout(report, EXIT_DRAIN_MS).unref();
+      });
+      child.on('close', report);
+    },
+    onError: (listener) => {
+      child.on('error', listener);
+    },
+  };
+}
+
+// Minimal slice of the node-pty API we rely on
+interface PtyModule {
+  spawn(file: string, args: string[], options: {
+    name: string;
+    cols: number;
+    rows: number;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+  }): PtyHandle;
+}
+
+interface PtyHandle {
+  pid: number;
+  write(data: string): void;
+  kill(signal?: string): void;
+  resize(cols: number, rows: number): void;
+  onData(listener: (data: string) => void): void;
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): void;
+}
+
+let ptyModule: PtyModule | null = null;
+
+/**
+ * Load node-pty on first use; it is an optional native dependency
+ */
+async function loadPty(): Promise<PtyModule | TonMCPError> {
+  if (ptyModule) {
+    return ptyModule;
+  }
+
+  // Specifier in a variable so the build doesn't require node-pty to be installed
+  const moduleName = 'node-pty';
+  try {
+    const loaded = await import(moduleName);
+    ptyModule = (loaded.default ?? loaded) as PtyModule;
+    return ptyModule;
+  } catch (err) {
+    return createError('PROCESS_ERROR',
+      `PTY mode requires the optional node-pty package: ${(err as Error).message}`);
+  }
+}
+
+function signalName(signal: number | undefined): NodeJS.Signals | null {
+  if (!signal) return null;
+  const entry = Object.entries(os.constants.signals).find(([, value]) => value === signal);
+  return entry ? (entry[0] as NodeJS.Signals) : null;
+}
+
+/**
+ * Spawn a command inside a pseudo-terminal so it sees a real TTY.
+ * stdout and stderr arrive merged, as they would in a terminal window.
+ */
+export async function spawnPty(
+  command: string,
+  options: TerminalOptions
+): Promise<TerminalProcess | TonMCPError> {
+  const pty = await loadPty();
+  if (isError(pty)) {
+    return pty;
+  }
+
+  const [shell, shellArgs] = process.platform === 'win32'
+    ? [process.env.ComSpec || 'cmd.exe', ['/d', '/s', '/c', command]]
+    : ['/bin/sh', ['-c', command]];
+
+  let term: PtyHandle;
+  try {
+    term = pty.spawn(shell, shellArgs, {
+      name: 'xterm-256color',
+      cols: options.cols ?? DEFAULT_PTY_COLS,
+      rows: options.rows ?? DEFAULT_PTY_ROWS,
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+    });
+  } catch (err) {
+    return createError('PROCESS_ERROR', `Failed to start: ${(err as Error).message}`);
+  }
+
+  return {
+    pid: term.pid,
+    isPty: true,
+    write: async (data) => {
+      term.write(data);
+    },
+    kill: (signal) => {
+      // node-pty rejects signals on Windows and always terminates there
+      term.kill(IS_WINDOWS ? undefined : signal);
+    },
+    signal: async (signal) => {
+      // Control keys go through the terminal so the line discipline (or ConPTY)
+      // delivers them to the foreground job, exactly as if typed
+      switch (signal) {
+        case 'SIGINT':
+          term.write('\x03');
+          return null;
+        case 'EOF':
+          term.write(IS_WINDOWS ? '\x1a\r' : '\x04');
+          return null;
+        case 'SIGQUIT':
+          if (IS_WINDOWS) break;
+          term.write('\x1c');
+          return null;
+        case 'SIGBREAK':
+          if (!IS_WINDOWS) {
+            return unsupportedSignal(signal, 'outside Windows');
+          }
+          return sendConsoleCtrlEvent(term.pid, CTRL_BREAK_EVENT);
+      }
+
+      term.kill(IS_WINDOWS ? undefined : signal);
+      return null;
+    },
+    resize: (cols, rows) => {
+      term.resize(cols, rows);
+    },
+    onData: (listener) => {
+      term.onData((data) => listener('pty', data));
+    },
+    onExit: (listener) => {
+      term.onExit(({ exitCode, signal }) => listener(exitCode, signalName(signal)));
+    },
+    // node-pty reports spawn failures synchronously
+    onError: () => {},
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * TonMCP Text Encoding
+ * Detect and preserve a text file's encoding, byte order mark and line endings
+ */
+
+export type LineEnding = 'lf' | 'crlf';
+
+export interface TextFormat {
+  /** A Node buffer encoding, or utf16be */
+  encoding: string;
+  bom: boolean;
+  /** Dominant line ending; null if the text has no line breaks */
+  eol: LineEnding | null;
+}
+
+export interface DecodedText {
+  text: string;
+  format: TextFormat;
+}
+
+const BOMS: Array<{ encoding: string; bytes: number[] }> = [
+  { encoding: 'utf8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf16be', bytes: [0xfe, 0xff] },
+];
+
+const ENCODING_ALIASES: Record<string, string> = {
+  'utf-8': 'utf8',
+  'utf-16le': 'utf16le',
+  'utf-16': 'utf16le',
+  'ucs2': 'utf16le',
+  'ucs-2': 'utf16le',
+  'utf-16be': 'utf16be',
+};
+
+/**
+ * Canonical name of an encoding, or null if Node can't handle it
+ */
+export function normalizeEncoding(encoding: string): string | null {
+  const name = encoding.toLowerCase();
+  const canonical = ENCODING_ALIASES[name] ?? name;
+  return canonical === 'utf16be' || Buffer.isEncoding(canonical) ? canonical : null;
+}
+
+function swapBytes(data: Buffer): Buffer {
+  const even = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  return even.swap16();
+}
+
+function isValidUtf8(data: Buffer): boolean {
+  try {
+    // Streaming, so a character cut off at the end of a sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(data, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encoding from a byte order mark, or for UTF-16 without one, from how many
+ * high or low bytes are zero. Otherwise UTF-8 if the bytes are valid UTF-8,
+ * else latin1, which maps every byte to a character and back unchanged.
+ */
+function detectEncoding(data: Buffer): { encoding: string; bomLength: number } {
+  for (const bom of BOMS) {
+    if (bom.bytes.every((byte, i) => data[i] === byte)) {
+      return { encoding: bom.encoding, bomLength: bom.bytes.length };
+    }
+  }
+
+  const sample = data.subarray(0, 4096);
+  if (sample.length >= 4) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    const pairs = Math.floor(sample.length / 2);
+    if (oddZeros > pairs / 2 && evenZeros === 0) return { encoding: 'utf16le', bomLength: 0 };
+    if (evenZeros > pairs / 2 && oddZeros === 0) return { encoding: 'utf16be', bomLength: 0 };
+  }
+
+  return { encoding: isValidUtf8(data) ? 'utf8' : 'latin1', bomLength: 0 };
+}
+
+/**
+ * The line ending most lines use
+ */
+export function detectLineEnding(text: string): LineEnding | null {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  if (crlf === 0 && lf === 0) {
+    return null;
+  }
+  return crlf > lf ? 'crlf' : 'lf';
+}
+
+/**
+ * Convert every line break to one line ending
+ */
+export function convertLineEndings(text: string, eol: LineEnding): string {
+  return text.replace(/\r?\n/g, eol === 'crlf' ? '\r\n' : '\n');
+}
+
+/**
+ * Decode a file's bytes, detecting the encoding unless one is given.
+ * A byte order mark matching the encoding is stripped and reported.
+ */
+export function decodeText(data: Buffer, encoding?: string): DecodedText {
+  const detected = detectEncoding(data);
+  const chosen = encoding ?? detected.encoding;
+  const bom = chosen === detected.encoding && detected.bomLength > 0;
+  const body = bom ? data.subarray(detected.bomLength) : data;
+
+  const text = chosen === 'utf16be'
+    ? swapBytes(body).toString('utf16le')
+    : body.toString(chosen as BufferEncoding);
+
+  return { text, format: { encoding: chosen, bom, eol: detectLineEnding(text) } };
+}
+
+/**
+ * Whether every character of text exists in a single-byte encoding;
+ * anything else would be silently replaced when encoded
+ */
+export function canEncode(text: string, encoding: string): boolean {
+  switch (encoding) {
+    case 'latin1':
+    case 'binary':
+      return !/[^\u0000-\u00ff]/.test(text);
+    case 'ascii':
+      return !/[^\u0000-\u007f]/.test(text);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Encode text for writing, with a byte order mark if the format has one.
+ * Line endings are written as they are in text.
+ */
+export function encodeText(text: string, format: Pick<TextFormat, 'encoding' | 'bom'>): Buffer {
+  const body = format.encoding === 'utf16be'
+    ? swapBytes(Buffer.from(text, 'utf16le'))
+    : Buffer.from(text, format.encoding as BufferEncoding);
+
+  const bom = format.bom ? BOMS.find((b) => b.encoding === format.encoding) : undefined;
+  return bom ? Buffer.concat([Buffer.from(bom.bytes), body]) : body;
+}
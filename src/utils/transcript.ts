@@ -0,0 +1,216 @@
+/**
+ * TonMCP Session Transcripts
+ * Append-only JSONL logs of interactive session input and output
+ */
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { normalizePath } from './paths.js';
+import { readLines } from './output.js';
+import { getConfig } from '../config.js';
+
+export interface TranscriptMeta {
+  session_id: string;
+  name: string | null;
+  labels: Record<string, string>;
+  command: string;
+  cwd: string;
+  pty: boolean;
+  started: string;
+  ended: string | null;
+  exit_code: number | null;
+  exit_signal: string | null;
+}
+
+export type TranscriptEntry =
+  | { type: 'output'; stream: string; text: string }
+  // Secret input is logged with its text left out
+  | { type: 'input'; text: string; redacted?: boolean }
+  | { type: 'signal'; signal: string }
+  | { type: 'exit'; exit_code: number | null; exit_signal: string | null };
+
+export type TranscriptEvent = TranscriptEntry & { time: string };
+
+export interface Transcript {
+  readonly path: string;
+  record(entry: TranscriptEntry): void;
+  finish(exitCode: number | null, exitSignal: string | null): void;
+}
+
+/**
+ * Directory transcripts are written to
+ */
+export function getTranscriptDir(): string {
+  return normalizePath(getConfig('transcript_dir'));
+}
+
+/**
+ * Path of a session's JSONL transcript
+ */
+export function transcriptPath(sessionId: string): string {
+  return path.join(getTranscriptDir(), `${sessionId}.jsonl`);
+}
+
+function metaPath(dir: string, sessionId: string): string {
+  return path.join(dir, `${sessionId}.meta.json`);
+}
+
+// Sessions whose transcripts are still being written
+const openSessions = new Set<string>();
+
+/**
+ * Delete all but the most recently written `keep` transcripts.
+ * Those of running sessions are never deleted, however long they have been idle.
+ */
+async function pruneTranscripts(dir: string, keep: number): Promise<void> {
+  const entries = await fsp.readdir(dir);
+  const transcripts = await Promise.all(entries
+    .filter((entry) => entry.endsWith('.jsonl') && !openSessions.has(entry.slice(0, -'.jsonl'.length)))
+    .map(async (entry) => {
+      try {
+        return { sessionId: entry.slice(0, -'.jsonl'.length), mtime: (await fsp.stat(path.join(dir, entry))).mtimeMs };
+      } catch {
+        return null;
+      }
+    }));
+
+  const stale = transcripts
+    .filter((t): t is { sessionId: string; mtime: number } => t !== null)
+    .sort((a, b) => b.mtime - a.mtime)
+    .slice(keep);
+
+  for (const { sessionId } of stale) {
+    await fsp.rm(path.join(dir, `${sessionId}.jsonl`), { force: true });
+    await fsp.rm(metaPath(dir, sessionId), { force: true });
+  }
+}
+
+/**
+ * Start a transcript for a session. Returns null if the directory
+ * can't be created, so logging problems never block the session itself.
+ * Transcripts beyond max_transcripts are deleted, oldest first.
+ */
+export function openTranscript(meta: TranscriptMeta): Transcript | null {
+  const dir = getTranscriptDir();
+
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(metaPath(dir, meta.session_id), JSON.stringify(meta, null, 2));
+  } catch {
+    return null;
+  }
+
+  const file = transcriptPath(meta.session_id);
+  const stream = fs.createWriteStream(file, { flags: 'a' });
+  openSessions.add(meta.session_id);
+  // A full disk shouldn't crash the server; the transcript just stops growing
+  stream.on('error', () => {});
+
+  const keep = getConfig('max_transcripts');
+  if (keep > 0) {
+    // Once the new file exists, so it counts as the most recent
+    stream.once('open', () => {
+      pruneTranscripts(dir, keep).catch(() => {});
+    });
+  }
+
+  return {
+    path: file,
+    record(entry) {
+      if (!stream.writable) return;
+      stream.write(JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n');
+    },
+    finish(exitCode, exitSignal) {
+      this.record({ type: 'exit', exit_code: exitCode, exit_signal: exitSignal });
+      stream.end();
+      openSessions.delete(meta.session_id);
+
+      const finished: TranscriptMeta = {
+        ...meta,
+        ended: new Date().toISOString(),
+        exit_code: exitCode,
+        exit_signal: exitSignal,
+      };
+      fsp.writeFile(metaPath(dir, meta.session_id), JSON.stringify(finished, null, 2)).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Read a session's transcript events (most recent `limit` if given)
+ */
+export async function readTranscript(
+  sessionId: string,
+  limit?: number
+): Promise<{ path: string; meta: TranscriptMeta | null; events: TranscriptEvent[]; total_events: number } | null> {
+  const dir = getTranscriptDir();
+  const file = transcriptPath(sessionId);
+
+  // Only the lines that will be returned are kept and parsed
+  const keep = limit !== undefined && limit > 0 ? limit : Infinity;
+  let lines: string[] = [];
+  let totalEvents = 0;
+  try {
+    for await (const line of readLines(file)) {
+      if (!line) continue;
+      totalEvents++;
+      lines.push(line);
+      if (lines.length >= keep * 2) {
+        lines = lines.slice(-keep);
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  const events: TranscriptEvent[] = [];
+  for (const line of lines.slice(-keep)) {
+    try {
+      events.push(JSON.parse(line) as TranscriptEvent);
+    } catch {
+      // Partially written last line
+      totalEvents--;
+    }
+  }
+
+  let meta: TranscriptMeta | null = null;
+  try {
+    meta = JSON.parse(await fsp.readFile(metaPath(dir, sessionId), 'utf8')) as TranscriptMeta;
+  } catch {
+    meta = null;
+  }
+
+  return {
+    path: file,
+    meta,
+    events,
+    total_events: totalEvents,
+  };
+}
+
+/**
+ * Metadata of every session that has a transcript on disk
+ */
+export async function listTranscripts(): Promise<TranscriptMeta[]> {
+  const dir = getTranscriptDir();
+
+  let entries: string[];
+  try {
+    entries = await fsp.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const metas: TranscriptMeta[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith('.meta.json')) continue;
+    try {
+      metas.push(JSON.parse(await fsp.readFile(path.join(dir, entry), 'utf8')) as TranscriptMeta);
+    } catch {
+      // Skip unreadable metadata
+    }
+  }
+
+  return metas.sort((a, b) => b.started.localeCompare(a.started));
+}
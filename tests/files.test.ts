@@ -0,0 +1,154 @@
+import { makeTempDir, unwrap } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileEdit, fileRead, fileWrite, isImageResult } from '../src/tools/files.js';
+
+const dir = makeTempDir();
+
+function file(name: string, content?: string | Buffer): string {
+  const filePath = path.join(dir, name);
+  if (content !== undefined) {
+    fs.writeFileSync(filePath, content);
+  }
+  return filePath;
+}
+
+test('base64 writes and byte-range reads round-trip', async () => {
+  const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+  const filePath = file('blob.bin');
+
+  const written = unwrap(await fileWrite({ path: filePath, content: bytes.toString('base64'), encoding: 'base64' }));
+  assert.equal(written.bytes_written, bytes.length);
+  assert.deepEqual(fs.readFileSync(filePath), bytes);
+
+  const whole = unwrap(await fileRead({ path: filePath, encoding: 'base64' }));
+  assert.ok('offset' in whole);
+  assert.deepEqual(Buffer.from(whole.content, 'base64'), bytes);
+  assert.equal(whole.truncated, false);
+
+  const tail = unwrap(await fileRead({ path: filePath, encoding: 'base64', offset: -3 }));
+  assert.ok('offset' in tail);
+  assert.equal(tail.offset, bytes.length - 3);
+  assert.deepEqual(Buffer.from(tail.content, 'base64'), bytes.subarray(-3));
+});
+
+test('images in a batch read come back as images, text files as text', async () => {
+  const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+  const image = file('pixel.png', png);
+  const text = file('notes.txt', 'plain\n');
+
+  const batch = unwrap(await fileRead({ paths: [image, text] }));
+  assert.ok('files' in batch);
+  const [imageEntry, textEntry] = batch.files;
+  assert.ok(imageEntry && isImageResult(imageEntry));
+  assert.equal(imageEntry.mime_type, 'image/png');
+  assert.deepEqual(Buffer.from(imageEntry.content, 'base64'), png);
+  assert.ok(textEntry && 'content' in textEntry && !isImageResult(textEntry));
+  assert.equal(textEntry.content, 'plain\n');
+});
+
+test('edits keep a UTF-8 BOM and CRLF line endings', async () => {
+  const filePath = file('bom-crlf.txt', Buffer.from('\uFEFFone\r\ntwo\r\n', 'utf8'));
+
+  const read = unwrap(await fileRead({ path: filePath }));
+  assert.ok('eol' in read);
+  assert.equal(read.content, 'one\ntwo\n');
+  assert.equal(read.bom, true);
+  assert.equal(read.eol, 'crlf');
+
+  unwrap(await fileEdit({ path: filePath, old_text: 'two\n', new_text: 'two\nthree\n' }));
+  assert.deepEqual(fs.readFileSync(filePath), Buffer.from('\uFEFFone\r\ntwo\r\nthree\r\n', 'utf8'));
+});
+
+test('inserted lines take the file\'s line endings even when old_text matches as is', async () => {
+  const filePath = file('crlf.txt', 'alpha\r\nbeta\r\n');
+
+  unwrap(await fileEdit({ path: filePath, old_text: 'beta', new_text: 'beta\ngamma' }));
+  assert.equal(fs.readFileSync(filePath, 'utf8'), 'alpha\r\nbeta\r\ngamma\r\n');
+});
+
+test('overwrites keep UTF-16LE with its BOM', async () => {
+  const filePath = file('utf16.txt', Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('old\r\n', 'utf16le')]));
+
+  const written = unwrap(await fileWrite({ path: filePath, content: 'new\n' }));
+  assert.equal(written.encoding, 'utf16le');
+  assert.deepEqual(fs.readFileSync(filePath), Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('new\r\n', 'utf16le')]));
+});
+
+test('files that are not valid UTF-8 are edited byte for byte', async () => {
+  const filePath = file('latin1.txt', Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x0a]));
+
+  const edited = unwrap(await fileEdit({ path: filePath, old_text: 'caf', new_text: 'the caf' }));
+  assert.equal(edited.encoding, 'latin1');
+  assert.deepEqual(fs.readFileSync(filePath), Buffer.from([0x74, 0x68, 0x65, 0x20, 0x63, 0x61, 0x66, 0xe9, 0x0a]));
+
+  const refused = await fileEdit({ path: filePath, old_text: 'the', new_text: '€' });
+  assert.ok('error' in refused && refused.code === 'INVALID_ARGUMENT');
+  // Converting to UTF-8 would garble a file that is really in another legacy encoding
+  assert.doesNotMatch(refused.message, /utf-?8/i);
+  assert.deepEqual(fs.readFileSync(filePath), Buffer.from([0x74, 0x68, 0x65, 0x20, 0x63, 0x61, 0x66, 0xe9, 0x0a]));
+});
+
+test('writes fail with CONFLICT when the sha256 no longer matches', async () => {
+  const filePath = file('sha.txt', 'v1\n');
+  const read = unwrap(await fileRead({ path: filePath }));
+  assert.ok('sha256' in read);
+
+  fs.writeFileSync(filePath, 'v2\n');
+  const result = await fileWrite({ path: filePath, content: 'v3\n', expected_sha256: read.sha256 });
+  assert.ok('error' in result && result.code === 'CONFLICT');
+  assert.equal(fs.readFileSync(filePath, 'utf8'), 'v2\n');
+
+  const current = unwrap(await fileRead({ path: filePath }));
+  assert.ok('sha256' in current);
+  const written = unwrap(await fileWrite({ path: filePath, content: 'v3\n', expected_sha256: current.sha256 }));
+  assert.equal(fs.readFileSync(filePath, 'utf8'), 'v3\n');
+  assert.ok('sha256' in written);
+});
+
+test('edits fail with CONFLICT when the mtime no longer matches', async () => {
+  const filePath = file('mtime.txt', 'v1\n');
+  const stale = new Date(fs.statSync(filePath).mtimeMs - 60_000).toISOString();
+
+  const result = await fileEdit({ path: filePath, old_text: 'v1', new_text: 'v2', expected_mtime: stale });
+  assert.ok('error' in result && result.code === 'CONFLICT');
+  assert.equal(fs.readFileSync(filePath, 'utf8'), 'v1\n');
+});
+
+test('overwrites replace the file whole and leave no temp file behind', async () => {
+  const sub = path.join(dir, 'atomic');
+  fs.mkdirSync(sub);
+  const filePath = path.join(sub, 'config.json');
+  fs.writeFileSync(filePath, '{"a":1}\n');
+  fs.chmodSync(filePath, 0o640);
+
+  const content = JSON.stringify({ a: 2, padding: 'x'.repeat(100_000) }) + '\n';
+  unwrap(await fileWrite({ path: filePath, content }));
+
+  assert.equal(fs.readFileSync(filePath, 'utf8'), content);
+  assert.deepEqual(fs.readdirSync(sub), ['config.json']);
+  if (process.platform !== 'win32') {
+    assert.equal(fs.statSync(filePath).mode & 0o777, 0o640);
+  }
+});
+
+test('overwrites through a symlink replace its target and keep the link', { skip: process.platform === 'win32' }, async () => {
+  const target = file('target.txt', 'old\n');
+  const link = path.join(dir, 'link.txt');
+  fs.symlinkSync(target, link);
+
+  unwrap(await fileWrite({ path: link, content: 'new\n' }));
+  assert.ok(fs.lstatSync(link).isSymbolicLink());
+  assert.equal(fs.readFileSync(target, 'utf8'), 'new\n');
+});
+
+test('edits keep hard links shared', async () => {
+  const first = file('first.txt', 'shared\n');
+  const second = path.join(dir, 'second.txt');
+  fs.linkSync(first, second);
+
+  unwrap(await fileEdit({ path: first, old_text: 'shared', new_text: 'changed' }));
+  assert.equal(fs.readFileSync(second, 'utf8'), 'changed\n');
+});
@@ -0,0 +1,46 @@
+/**
+ * Shared test setup. Imported before the modules under test so they load
+ * with default configuration instead of the user's ~/.tonmcp.json.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isError, TonMCPError } from '../src/utils/errors.js';
+import { resetConfigCache, TonMCPConfig } from '../src/config.js';
+
+/**
+ * Fresh scratch directory, removed when the process exits
+ */
+export function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tonmcp-test-'));
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+const home = makeTempDir();
+process.env.HOME = home;
+process.env.USERPROFILE = home;
+// Spilled output goes under the temp dir, so keep it apart from real runs
+const tmp = makeTempDir();
+process.env.TMPDIR = tmp;
+process.env.TEMP = tmp;
+process.env.TMP = tmp;
+
+/**
+ * Replace ~/.tonmcp.json for the rest of the test file
+ */
+export function writeConfig(config: Partial<TonMCPConfig>): void {
+  fs.writeFileSync(path.join(home, '.tonmcp.json'), JSON.stringify(config));
+  resetConfigCache();
+}
+
+/**
+ * Narrow a tool result, failing the test with the error if it is one
+ */
+export function unwrap<T>(result: T | TonMCPError): T {
+  if (isError(result)) {
+    throw new Error(`Unexpected ${result.code}: ${result.message}`);
+  }
+  return result;
+}
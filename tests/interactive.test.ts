@@ -0,0 +1,96 @@
+import { makeTempDir, unwrap } from './helpers.js';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { processInteractive } from '../src/tools/interactive.js';
+
+// A line-oriented program with a prompt, scripted by the input it gets
+const FIXTURE = `
+const readline = require('readline');
+process.stdout.write('ready\\n> ');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  if (line === 'multi') {
+    process.stdout.write('first\\nMARK\\nafter\\n> ');
+  } else if (line === 'later') {
+    process.stdout.write('> ');
+    setTimeout(() => process.stdout.write('background\\n'), 300);
+  } else if (line === 'ping') {
+    process.stdout.write('pong\\n> ');
+  } else {
+    process.stdout.write('echo: ' + line + '\\n> ');
+  }
+});
+`;
+
+const dir = makeTempDir();
+const fixture = path.join(dir, 'prompt.cjs');
+fs.writeFileSync(fixture, FIXTURE);
+
+const sessions: string[] = [];
+
+after(async () => {
+  for (const session_id of sessions) {
+    await processInteractive({ action: 'kill', session_id });
+  }
+});
+
+async function start(): Promise<string> {
+  const started = unwrap(await processInteractive({
+    action: 'start',
+    command: `"${process.execPath}" "${fixture}"`,
+    expect: '^> ',
+    confirm: true,
+  }));
+  assert.equal(started.output, 'ready\n> ');
+  sessions.push(started.session_id!);
+  return started.session_id!;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('write with expect returns output up to the matching line and leaves the rest unread', async () => {
+  const session_id = await start();
+
+  const written = unwrap(await processInteractive({ action: 'write', session_id, input: 'multi\n', expect: '^MARK$' }));
+  assert.equal(written.output, 'first\nMARK\n');
+  assert.equal(written.expect?.matched, 'MARK');
+  assert.equal(written.expect?.before, 'first\n');
+
+  const read = unwrap(await processInteractive({ action: 'read', session_id, timeout_ms: 1000 }));
+  assert.equal(read.output, 'after\n> ');
+});
+
+test('write with expect only matches output that follows the write', async () => {
+  const session_id = await start();
+
+  // Leaves "background" unread, and it would match the pattern below
+  unwrap(await processInteractive({ action: 'write', session_id, input: 'later\n' }));
+  await sleep(600);
+
+  const written = unwrap(await processInteractive({ action: 'write', session_id, input: 'ping\n', expect: '^(pong|background)$' }));
+  assert.equal(written.expect?.matched, 'pong');
+  assert.equal(written.output, 'pong\n');
+  assert.equal(written.earlier_output, 'background\n');
+});
+
+test('read from an earlier cursor returns the output again', async () => {
+  const session_id = await start();
+
+  const written = unwrap(await processInteractive({ action: 'write', session_id, input: 'hello\n', expect: '^> ' }));
+  assert.equal(written.output, 'echo: hello\n> ');
+
+  const again = unwrap(await processInteractive({ action: 'read', session_id, cursor: 0, timeout_ms: 100 }));
+  assert.equal(again.output, 'ready\n> echo: hello\n> ');
+  assert.equal(again.cursor, written.cursor);
+});
+
+test('an expect that times out leaves the output for the next read', async () => {
+  const session_id = await start();
+
+  const failed = await processInteractive({ action: 'write', session_id, input: 'hello\n', expect: 'never', timeout_ms: 300 });
+  assert.ok('error' in failed && failed.code === 'TIMEOUT');
+
+  const read = unwrap(await processInteractive({ action: 'read', session_id, timeout_ms: 100 }));
+  assert.equal(read.output, 'echo: hello\n> ');
+});
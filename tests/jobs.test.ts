@@ -0,0 +1,61 @@
+import { unwrap } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { shellExec } from '../src/tools/shell.js';
+import { shellJob } from '../src/tools/jobs.js';
+
+const posix = { skip: process.platform === 'win32' };
+
+async function startJob(command: string, timeout_ms?: number): Promise<string> {
+  const started = unwrap(await shellExec({ command, shell: 'sh', background: true, timeout_ms }));
+  assert.ok('job' in started);
+  assert.equal(started.job.status, 'running');
+  return started.job.job_id;
+}
+
+test('a background job returns at once and its output is there on wait', posix, async () => {
+  const job_id = await startJob('sleep 0.2; echo done; exit 3');
+
+  const status = unwrap(await shellJob({ action: 'status', job_id }));
+  assert.equal(status.job?.status, 'running');
+
+  const waited = unwrap(await shellJob({ action: 'wait', job_id, timeout_ms: 5000 }));
+  assert.equal(waited.job?.status, 'exited');
+  assert.equal(waited.job?.exit_code, 3);
+  assert.equal(waited.stdout, 'done');
+});
+
+test('wait times out on a job that is still running, and cancel ends it', posix, async () => {
+  const job_id = await startJob('sleep 30');
+
+  const waited = await shellJob({ action: 'wait', job_id, timeout_ms: 100 });
+  assert.ok('error' in waited && waited.code === 'TIMEOUT');
+
+  const cancelled = unwrap(await shellJob({ action: 'cancel', job_id }));
+  assert.equal(cancelled.job?.status, 'cancelled');
+  assert.ok(cancelled.job?.ended);
+});
+
+test('a background job given a timeout is ended when it runs out', posix, async () => {
+  const job_id = await startJob('sleep 30', 200);
+
+  const waited = unwrap(await shellJob({ action: 'wait', job_id, timeout_ms: 5000 }));
+  assert.equal(waited.job?.status, 'timed_out');
+});
+
+test('a blocking command given timeout 0 still runs to completion', posix, async () => {
+  const result = unwrap(await shellExec({ command: 'sleep 0.2; echo done', shell: 'sh', timeout_ms: 0 }));
+  assert.ok('stdout' in result);
+  assert.equal(result.stdout.trim(), 'done');
+  assert.equal(result.exit_code, 0);
+});
+
+test('list returns the most recent jobs first', posix, async () => {
+  const first = await startJob('true');
+  await shellJob({ action: 'wait', job_id: first });
+  const second = await startJob('true');
+  await shellJob({ action: 'wait', job_id: second });
+
+  const listed = unwrap(await shellJob({ action: 'list', limit: 2 }));
+  assert.deepEqual(listed.jobs?.map((job) => job.job_id), [second, first]);
+});
@@ -0,0 +1,93 @@
+import { unwrap, writeConfig } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { createCaptures, spillPath } from '../src/utils/output.js';
+import { shellExec } from '../src/tools/shell.js';
+import { shellOutput } from '../src/tools/output.js';
+
+// Text either side of the truncation notice
+function ends(text: string): string {
+  return text.replace(/\n\n\.\.\. \[.*\] \.\.\.\n\n/, '');
+}
+
+test('output under the budget stays in memory', async () => {
+  const captures = createCaptures(100);
+  captures.stdout.append('out\n');
+  captures.stderr.append('err\n');
+  await captures.close();
+
+  assert.equal(captures.outputId, null);
+  assert.equal(captures.stdout.text(), 'out\n');
+  assert.equal(captures.stderr.text(), 'err\n');
+});
+
+test('stdout and stderr share one budget', async () => {
+  const captures = createCaptures(100);
+  captures.stdout.append('o'.repeat(80));
+  captures.stderr.append('e'.repeat(40));
+  await captures.close();
+
+  assert.ok(captures.outputId);
+  assert.equal(captures.stdout.spilled, true);
+  assert.equal(captures.stderr.spilled, false);
+  assert.equal(captures.stderr.text(), 'e'.repeat(40));
+  assert.ok(Buffer.byteLength(ends(captures.stdout.text())) <= 60);
+  assert.equal(fs.readFileSync(spillPath(captures.outputId, 'stdout')!, 'utf8'), 'o'.repeat(80));
+});
+
+test('when both streams spill each gets half the budget', async () => {
+  const captures = createCaptures(100);
+  captures.stdout.append('o'.repeat(300));
+  captures.stderr.append('e'.repeat(300));
+  await captures.close();
+
+  assert.equal(ends(captures.stdout.text()), 'o'.repeat(50));
+  assert.equal(ends(captures.stderr.text()), 'e'.repeat(50));
+});
+
+test('head and tail are measured in bytes and keep characters whole', async () => {
+  const captures = createCaptures(100);
+  captures.stdout.append('€'.repeat(100));
+  await captures.close();
+
+  const kept = ends(captures.stdout.text());
+  assert.ok(Buffer.byteLength(kept) <= 100);
+  assert.match(kept, /^€+$/);
+  assert.equal(captures.stdout.totalBytes, 300);
+});
+
+test('pruning old spills leaves those of running commands alone', async () => {
+  const running = createCaptures(10);
+  running.stdout.append('still running\n');
+  const runningFile = spillPath(running.outputId!, 'stdout')!;
+
+  for (let i = 0; i < 25; i++) {
+    const finished = createCaptures(10);
+    finished.stdout.append('finished output\n');
+    await finished.close();
+  }
+
+  assert.ok(fs.existsSync(runningFile));
+  await running.close();
+});
+
+test('large command output can be paged and grepped with shell_output', { skip: process.platform === 'win32' }, async () => {
+  writeConfig({ max_output_bytes: 1000 });
+
+  const result = unwrap(await shellExec({ command: 'seq 1 2000', shell: 'sh' }));
+  assert.ok('output_id' in result && result.output_id);
+  assert.equal(result.stdout_lines, 2000);
+  assert.ok(result.stdout.startsWith('1\n2\n'));
+  assert.ok(result.stdout.endsWith('1999\n2000'));
+
+  const grep = unwrap(await shellOutput({ output_id: result.output_id, grep: '^150[0-2]$' }));
+  assert.deepEqual(grep.matches, [
+    { line: 1500, text: '1500' },
+    { line: 1501, text: '1501' },
+    { line: 1502, text: '1502' },
+  ]);
+
+  const page = unwrap(await shellOutput({ output_id: result.output_id, start_line: 10, end_line: 12 }));
+  assert.equal(page.text, '10\n11\n12');
+});
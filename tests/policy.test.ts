@@ -0,0 +1,55 @@
+import { writeConfig } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCommandPolicy, extractExecutables } from '../src/utils/policy.js';
+
+test('every segment of a command line is checked', () => {
+  assert.deepEqual(extractExecutables('git status && npm test | tee log; echo $(whoami) 2>&1'),
+    ['git', 'npm', 'tee', 'echo', 'whoami']);
+  assert.deepEqual(extractExecutables('FOO=1 "C:\\Tools\\Curl.exe" -s x'), ['curl']);
+});
+
+test('wrappers are seen through, and listed themselves', () => {
+  assert.deepEqual(extractExecutables('sudo -u root rm -rf x'), ['sudo', 'rm']);
+  assert.deepEqual(extractExecutables('env -i PATH=/bin rm x'), ['env', 'rm']);
+  assert.deepEqual(extractExecutables('command rm x'), ['command', 'rm']);
+  assert.deepEqual(extractExecutables('find . | xargs -I {} rm {}'), ['find', 'xargs', 'rm']);
+  assert.deepEqual(extractExecutables('timeout -s KILL 5 nice -n 10 rm x'), ['timeout', 'nice', 'rm']);
+});
+
+test('scripts given to a shell or eval are checked too', () => {
+  assert.deepEqual(extractExecutables('bash -c "rm x"'), ['bash', 'rm']);
+  assert.deepEqual(extractExecutables(`sh -lc 'cd /tmp && rm x'`), ['sh', 'cd', 'rm']);
+  assert.deepEqual(extractExecutables(`sudo sh -c "bash -c 'rm x'"`), ['sudo', 'sh', 'bash', 'rm']);
+  assert.deepEqual(extractExecutables('eval "rm x"'), ['eval', 'rm']);
+  assert.deepEqual(extractExecutables('cmd /c del x'), ['cmd', 'del']);
+  assert.deepEqual(extractExecutables('pwsh -NoProfile -Command "curl.exe x"'), ['pwsh', 'curl']);
+  assert.deepEqual(extractExecutables('bash script.sh'), ['bash']);
+});
+
+test('blocked executables are refused however they are wrapped', () => {
+  writeConfig({ command_policy: { blocked_executables: ['rm'] } });
+
+  for (const command of ['rm x', 'bash -c "rm x"', 'bash -c "ls; rm x"', 'bash -c "rm x; ls"', 'command rm x', 'ls | xargs rm', 'env rm x', 'sudo rm x']) {
+    const error = checkCommandPolicy(command);
+    assert.equal(error?.code, 'POLICY_DENIED', command);
+    assert.equal(error?.details?.rule, 'blocked_executable');
+  }
+  assert.equal(checkCommandPolicy('echo rm'), null);
+});
+
+test('deny, allow and require_confirmation are applied in order', () => {
+  writeConfig({ command_policy: { deny: ['--force'], allow: ['^git '], require_confirmation: ['^git push'] } });
+
+  assert.equal(checkCommandPolicy('git push --force')?.details?.rule, 'deny');
+  assert.equal(checkCommandPolicy('npm test')?.details?.rule, 'allow');
+  assert.equal(checkCommandPolicy('git push')?.details?.rule, 'require_confirmation');
+  assert.equal(checkCommandPolicy('git push', { confirmed: true }), null);
+  assert.equal(checkCommandPolicy('git status'), null);
+});
+
+test('an invalid pattern fails closed', () => {
+  writeConfig({ command_policy: { deny: ['('] } });
+
+  assert.equal(checkCommandPolicy('ls')?.details?.rule, 'invalid_pattern');
+});
@@ -0,0 +1,64 @@
+import { unwrap } from './helpers.js';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { processInteractive } from '../src/tools/interactive.js';
+import { findExecutable } from '../src/utils/powershell.js';
+import type { ReplKind } from '../src/utils/repl.js';
+
+const sessions: string[] = [];
+
+after(async () => {
+  for (const session_id of sessions) {
+    await processInteractive({ action: 'kill', session_id });
+  }
+});
+
+async function start(repl: ReplKind): Promise<string> {
+  const started = unwrap(await processInteractive({ action: 'start', repl, confirm: true }));
+  sessions.push(started.session_id!);
+  return started.session_id!;
+}
+
+async function evaluate(session_id: string, code: string) {
+  const result = unwrap(await processInteractive({ action: 'eval', session_id, code, timeout_ms: 10000 }));
+  assert.ok(result.eval);
+  return result.eval;
+}
+
+test('Node evals keep let, const and class declarations', async () => {
+  const session_id = await start('node');
+
+  await evaluate(session_id, 'let count = 1; const step = 2; class Box { constructor(v) { this.v = v; } }');
+  const value = await evaluate(session_id, 'new Box(count + step).v');
+  assert.equal(value.status, 'ok');
+  assert.equal(value.stdout, '3\n');
+
+  const thrown = await evaluate(session_id, 'throw new Error("boom")');
+  assert.equal(thrown.status, 'error');
+  assert.match(thrown.exception ?? '', /Error: boom/);
+});
+
+const python = { skip: !findExecutable('python3') && !findExecutable('python') };
+
+test('Python evals keep definitions and print a trailing expression', python, async () => {
+  const session_id = await start('python');
+
+  await evaluate(session_id, 'def double(x):\n    return x * 2\nvalue = 21');
+  const result = await evaluate(session_id, 'print("side")\ndouble(value)');
+  assert.equal(result.status, 'ok');
+  assert.equal(result.stdout, 'side\n42\n');
+});
+
+test('Python tracebacks leave out the harness and parser frames', python, async () => {
+  const session_id = await start('python');
+
+  const raised = await evaluate(session_id, '1 / 0');
+  assert.equal(raised.status, 'error');
+  assert.match(raised.exception ?? '', /ZeroDivisionError/);
+  assert.doesNotMatch(raised.exception ?? '', /__tonmcp_eval/);
+
+  const syntax = await evaluate(session_id, 'def broken(:');
+  assert.equal(syntax.status, 'error');
+  assert.match(syntax.exception ?? '', /SyntaxError/);
+  assert.doesNotMatch(syntax.exception ?? '', /ast\.py|__tonmcp_eval/);
+});
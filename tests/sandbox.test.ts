@@ -0,0 +1,64 @@
+import { makeTempDir, unwrap, writeConfig } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileRead, fileWrite } from '../src/tools/files.js';
+
+const root = fs.realpathSync(makeTempDir());
+const outside = fs.realpathSync(makeTempDir());
+writeConfig({ allowed_roots: [root] });
+
+const symlinks = { skip: process.platform === 'win32' };
+
+test('paths inside an allowed root can be read and written', async () => {
+  const filePath = path.join(root, 'inside.txt');
+  unwrap(await fileWrite({ path: filePath, content: 'inside\n' }));
+
+  const read = unwrap(await fileRead({ path: filePath }));
+  assert.ok('content' in read);
+  assert.equal(read.content, 'inside\n');
+});
+
+test('paths outside every allowed root are refused', async () => {
+  const filePath = path.join(outside, 'secret.txt');
+  fs.writeFileSync(filePath, 'secret\n');
+
+  const read = await fileRead({ path: filePath });
+  assert.ok('error' in read && read.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+
+  const escaped = await fileRead({ path: path.join(root, '..', path.basename(outside), 'secret.txt') });
+  assert.ok('error' in escaped && escaped.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+});
+
+test('a symlink inside the root cannot reach a file outside it', symlinks, async () => {
+  fs.writeFileSync(path.join(outside, 'linked.txt'), 'secret\n');
+  const link = path.join(root, 'linked.txt');
+  fs.symlinkSync(path.join(outside, 'linked.txt'), link);
+
+  const read = await fileRead({ path: link });
+  assert.ok('error' in read && read.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+
+  const written = await fileWrite({ path: link, content: 'changed\n' });
+  assert.ok('error' in written && written.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+  assert.equal(fs.readFileSync(path.join(outside, 'linked.txt'), 'utf8'), 'secret\n');
+});
+
+test('a dangling symlink cannot create a file outside the root', symlinks, async () => {
+  const target = path.join(outside, 'created.txt');
+  const link = path.join(root, 'dangling.txt');
+  fs.symlinkSync(target, link);
+
+  const written = await fileWrite({ path: link, content: 'escaped\n' });
+  assert.ok('error' in written && written.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+  assert.equal(fs.existsSync(target), false);
+});
+
+test('a symlinked directory cannot lead out of the root', symlinks, async () => {
+  const link = path.join(root, 'out');
+  fs.symlinkSync(outside, link, 'dir');
+
+  const written = await fileWrite({ path: path.join(link, 'new.txt'), content: 'escaped\n' });
+  assert.ok('error' in written && written.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+  assert.equal(fs.existsSync(path.join(outside, 'new.txt')), false);
+});
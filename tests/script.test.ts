@@ -0,0 +1,63 @@
+import { writeConfig } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { shellScript } from '../src/tools/script.js';
+
+const posix = { skip: process.platform === 'win32' };
+
+test('steps stop at the first failure and report the rest as skipped', posix, async () => {
+  const result = await shellScript({
+    shell: 'sh',
+    steps: [{ command: 'echo one' }, { command: 'exit 3' }, { command: 'echo three' }],
+  });
+  assert.ok(!('error' in result));
+  assert.equal(result.status, 'failed');
+  assert.equal(result.failed_step, 1);
+  assert.deepEqual(result.steps.map((step) => step.status), ['succeeded', 'failed', 'skipped']);
+  assert.equal(result.steps[0]?.stdout, 'one');
+  assert.equal(result.steps[1]?.exit_code, 3);
+});
+
+test('a step allowed to fail lets the script carry on', posix, async () => {
+  const result = await shellScript({
+    shell: 'sh',
+    steps: [{ command: 'false', continue_on_error: true }, { command: 'echo after' }],
+  });
+  assert.ok(!('error' in result));
+  assert.equal(result.status, 'completed_with_errors');
+  assert.equal(result.steps[1]?.stdout, 'after');
+});
+
+test('a script body runs with its interpreter and its temp file is removed', async () => {
+  const result = await shellScript({
+    interpreter: 'node',
+    script: 'const lines = ["a", "b"];\nconsole.log(lines.join("+"));\nprocess.exitCode = 2;',
+  });
+  assert.ok(!('error' in result));
+  assert.equal(result.status, 'failed');
+  assert.equal(result.steps[0]?.stdout, 'a+b');
+  assert.equal(result.steps[0]?.exit_code, 2);
+
+  const scriptDir = path.join(os.tmpdir(), 'tonmcp-scripts');
+  assert.deepEqual(fs.readdirSync(scriptDir), []);
+});
+
+test('the command policy applies to a script body', posix, async () => {
+  writeConfig({ command_policy: { blocked_executables: ['rm'] } });
+  try {
+    const result = await shellScript({ interpreter: 'sh', script: 'echo start\nrm -f nothing' });
+    assert.ok(!('error' in result));
+    assert.equal(result.status, 'failed');
+    assert.equal(result.steps[0]?.error?.code, 'POLICY_DENIED');
+  } finally {
+    writeConfig({});
+  }
+});
+
+test('steps and script cannot be combined', async () => {
+  const result = await shellScript({ steps: [{ command: 'true' }], script: 'true' });
+  assert.ok('error' in result && result.code === 'INVALID_PARAMS');
+});
@@ -0,0 +1,96 @@
+import { makeTempDir, unwrap, writeConfig } from './helpers.js';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { shellExec } from '../src/tools/shell.js';
+import type { ShellSessionResult } from '../src/tools/shell-sessions.js';
+
+const posix = { skip: process.platform === 'win32' };
+const dir = fs.realpathSync(makeTempDir());
+fs.mkdirSync(path.join(dir, 'sub'));
+
+const opened = new Set<string>();
+
+after(async () => {
+  for (const session of opened) {
+    await shellExec({ command: 'exit', session });
+  }
+});
+
+async function run(session: string, command: string, extra: { shell?: 'sh' | 'bash'; cwd?: string } = {}): Promise<ShellSessionResult> {
+  opened.add(session);
+  const result = unwrap(await shellExec({ command, session, shell: 'sh', ...extra }));
+  assert.ok('session' in result);
+  return result;
+}
+
+test('directory and variables carry over between commands', posix, async () => {
+  await run('carry', 'cd sub && GREETING=hello', { cwd: dir });
+
+  const next = await run('carry', 'echo "$GREETING from $(basename "$PWD")"');
+  assert.equal(next.stdout, 'hello from sub');
+  assert.equal(next.cwd, path.join(dir, 'sub'));
+  assert.equal(next.exit_code, 0);
+});
+
+test('exit codes and stderr are reported per command', posix, async () => {
+  const failed = await run('status', 'echo oops >&2; false');
+  assert.equal(failed.exit_code, 1);
+  assert.equal(failed.stderr, 'oops');
+
+  const ok = await run('status', 'echo fine');
+  assert.equal(ok.exit_code, 0);
+  assert.equal(ok.stderr, '');
+});
+
+test('cwd given to an existing session changes directory first', posix, async () => {
+  await run('move', 'true', { cwd: dir });
+
+  const moved = await run('move', 'pwd', { cwd: path.join(dir, 'sub') });
+  assert.equal(moved.stdout, path.join(dir, 'sub'));
+});
+
+test('a shell other than the session\'s is refused', posix, async () => {
+  await run('mismatch', 'true');
+
+  const refused = await shellExec({ command: 'true', session: 'mismatch', shell: 'bash' });
+  assert.ok('error' in refused && refused.code === 'INVALID_PARAMS');
+});
+
+test('a session that exited is reported as restarted by the next command', posix, async () => {
+  await run('restart', 'KEEP=1');
+
+  const ended = await run('restart', 'exit 4');
+  assert.equal(ended.session_ended, true);
+  assert.equal(ended.exit_code, 4);
+
+  const next = await run('restart', 'echo "[$KEEP]"');
+  assert.equal(next.session_restarted, true);
+  assert.equal(next.stdout, '[]');
+});
+
+test('exit ends the session even if a background command holds its output open', posix, async () => {
+  const ended = await run('held', 'sleep 3 & exit 2');
+  assert.equal(ended.session_ended, true);
+  assert.equal(ended.exit_code, 2);
+  assert.ok(ended.duration_ms < 3000);
+});
+
+test('only a cwd that is given or starts a shell is checked against allowed_roots', posix, async () => {
+  // The home directory, and so the default cwd, is outside this root
+  writeConfig({ allowed_roots: [dir] });
+  try {
+    const refused = await shellExec({ command: 'pwd', session: 'rooted', shell: 'sh' });
+    assert.ok('error' in refused && refused.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+
+    await run('rooted', 'true', { cwd: dir });
+    const next = await run('rooted', 'pwd');
+    assert.equal(next.stdout, dir);
+
+    const outside = await shellExec({ command: 'pwd', session: 'rooted', cwd: path.dirname(dir) });
+    assert.ok('error' in outside && outside.code === 'ACCESS_DENIED_OUTSIDE_ROOT');
+  } finally {
+    writeConfig({});
+  }
+});
@@ -0,0 +1,62 @@
+import { makeTempDir, writeConfig } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { openTranscript, readTranscript, transcriptPath, TranscriptMeta } from '../src/utils/transcript.js';
+
+writeConfig({ transcript_dir: makeTempDir(), max_transcripts: 2 });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function meta(session_id: string): TranscriptMeta {
+  return {
+    session_id,
+    name: null,
+    labels: {},
+    command: 'test',
+    cwd: '.',
+    pty: false,
+    started: new Date().toISOString(),
+    ended: null,
+    exit_code: null,
+    exit_signal: null,
+  };
+}
+
+test('a limited read returns the most recent events and counts them all', async () => {
+  const transcript = openTranscript(meta('limited'))!;
+  for (let i = 0; i < 10; i++) {
+    transcript.record({ type: 'output', stream: 'stdout', text: `line ${i}\n` });
+  }
+  transcript.finish(0, null);
+  await sleep(100);
+
+  const read = await readTranscript('limited', 3);
+  assert.ok(read);
+  assert.equal(read.total_events, 11);
+  assert.deepEqual(read.events.map((event) => event.type === 'output' ? event.text : event.type),
+    ['line 8\n', 'line 9\n', 'exit']);
+  assert.equal(read.meta?.exit_code, 0);
+
+  const all = await readTranscript('limited');
+  assert.equal(all?.events.length, 11);
+});
+
+test('pruning keeps the transcripts of running sessions however old', async () => {
+  const running = openTranscript(meta('running'))!;
+  running.record({ type: 'input', text: 'still here\n' });
+  await sleep(50);
+
+  for (const id of ['old-1', 'old-2', 'old-3']) {
+    openTranscript(meta(id))!.finish(0, null);
+    await sleep(50);
+  }
+
+  assert.ok(fs.existsSync(transcriptPath('running')));
+  assert.equal(fs.existsSync(transcriptPath('old-1')), false);
+  running.finish(0, null);
+});
+
+test('a missing transcript reads as null', async () => {
+  assert.equal(await readTranscript('missing'), null);
+});